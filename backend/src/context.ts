@@ -0,0 +1,148 @@
+import type { LlmMessage } from "./llm.js";
+
+export type ContextMessage = {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: number;
+};
+
+export type HistorySelection = {
+  /** Oldest turns that did not fit; they should be folded into the running summary. */
+  overflow: ContextMessage[];
+  recent: ContextMessage[];
+};
+
+// Roughly what chat APIs add per message for role and separators.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const TRUNCATION_MARKER = "\n\n[… message truncated …]\n\n";
+// Single turns are clipped to this before summarizing so one pasted log cannot crowd out the rest.
+const MAX_SUMMARY_INPUT_TOKENS_PER_MESSAGE = 1000;
+
+const SUMMARY_INSTRUCTIONS = [
+  "You maintain a running summary of a support chat between a visitor and an assistant.",
+  "Merge the previous summary (if any) with the new turns into one updated summary.",
+  "Keep facts the assistant may need later: the visitor's goal, names, account or order details, what was tried, what was promised and what is still open.",
+  "Drop greetings and small talk. Write in the third person, at most 300 words, no preamble."
+].join(" ");
+
+// Average characters per token for English-like text. Without bundling each provider's tokenizer
+// this errs slightly high so the estimate stays on the safe side of the real count.
+function getCharsPerToken(model: string): number {
+  const name = model.toLowerCase();
+
+  if (name.startsWith("claude")) {
+    return 3.5;
+  }
+
+  // o200k-based OpenAI models pack text a little tighter than the older cl100k ones.
+  if (/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(name)) {
+    return 4;
+  }
+
+  if (name.startsWith("gpt-")) {
+    return 3.8;
+  }
+
+  // Llama, Mistral, Qwen and other open models served through Ollama or compatible APIs.
+  return 3.3;
+}
+
+/**
+ * Estimates how many tokens `model` will count for `text`. Non-ASCII characters (CJK, emoji) are
+ * counted as one token each since they rarely share tokens with their neighbours.
+ */
+export function estimateTokens(text: string, model: string): number {
+  let nonAsciiChars = 0;
+
+  for (let index = 0; index < text.length; index += 1) {
+    if (text.charCodeAt(index) > 127) {
+      nonAsciiChars += 1;
+    }
+  }
+
+  return Math.ceil((text.length - nonAsciiChars) / getCharsPerToken(model)) + nonAsciiChars;
+}
+
+export function estimateMessageTokens(message: { content: string }, model: string): number {
+  return estimateTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/** Keeps the start and end of `text` so it fits in about `maxTokens`. */
+export function truncateToTokens(text: string, maxTokens: number, model: string): string {
+  if (estimateTokens(text, model) <= maxTokens) {
+    return text;
+  }
+
+  // Scale by the measured ratio so mostly non-ASCII text is cut as hard as it needs to be.
+  const ratio = text.length / estimateTokens(text, model);
+  const keepChars = Math.max(0, Math.floor(maxTokens * ratio) - TRUNCATION_MARKER.length);
+  const headChars = Math.ceil(keepChars / 2);
+
+  return `${text.slice(0, headChars)}${TRUNCATION_MARKER}${text.slice(text.length - (keepChars - headChars))}`;
+}
+
+/**
+ * Picks the newest turns that fit in `maxTokens` (and at most `maxMessages` of them). The latest
+ * message is always kept, truncated if it is larger than the whole budget on its own.
+ */
+export function selectHistory(
+  messages: ContextMessage[],
+  options: { maxTokens: number; maxMessages: number; model: string }
+): HistorySelection {
+  if (messages.length === 0) {
+    return { overflow: [], recent: [] };
+  }
+
+  const latest = messages[messages.length - 1];
+  const recent: ContextMessage[] = [
+    {
+      ...latest,
+      content: truncateToTokens(
+        latest.content,
+        options.maxTokens - MESSAGE_OVERHEAD_TOKENS,
+        options.model
+      )
+    }
+  ];
+  let usedTokens = estimateMessageTokens(recent[0], options.model);
+  let index = messages.length - 2;
+
+  for (; index >= 0 && recent.length < options.maxMessages; index -= 1) {
+    const messageTokens = estimateMessageTokens(messages[index], options.model);
+
+    if (usedTokens + messageTokens > options.maxTokens) {
+      break;
+    }
+
+    usedTokens += messageTokens;
+    recent.unshift(messages[index]);
+  }
+
+  return { overflow: messages.slice(0, index + 1), recent };
+}
+
+/** Prompt that folds `overflow` into `previousSummary`; the model's answer is the new summary. */
+export function buildSummaryMessages(
+  previousSummary: string | null,
+  overflow: ContextMessage[],
+  model: string
+): LlmMessage[] {
+  const transcript = overflow
+    .map(
+      (message) =>
+        `${message.role === "user" ? "Visitor" : "Assistant"}: ${truncateToTokens(
+          message.content,
+          MAX_SUMMARY_INPUT_TOKENS_PER_MESSAGE,
+          model
+        )}`
+    )
+    .join("\n\n");
+
+  return [
+    { role: "system", content: SUMMARY_INSTRUCTIONS },
+    {
+      role: "user",
+      content: `Previous summary:\n${previousSummary ?? "(none)"}\n\nNew turns:\n${transcript}`
+    }
+  ];
+}
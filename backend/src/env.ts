@@ -16,15 +16,109 @@ const envSchema = z.object({
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
   PORT: z.coerce.number().int().positive().default(4000),
   CONVEX_URL: z.string().min(1),
-  OPENAI_API_KEY: z.string().min(1),
+  LLM_PROVIDER: z.enum(["openai", "anthropic", "ollama", "openai-compatible"]).default("openai"),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_API_KEY: z.string().min(1).optional(),
+  LLM_MODEL: z.string().min(1).optional(),
+  LLM_MAX_TOKENS: z.coerce.number().int().positive().default(1024),
+  MODEL_PRICES: z.string().min(1).optional(),
+  OPENAI_API_KEY: z.string().min(1).optional(),
   OPENAI_MODEL: z.string().min(1).default("gpt-4.1-mini"),
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  SYSTEM_PROMPT: z
+    .string()
+    .min(1)
+    .default("You are a concise and helpful AI assistant embedded in a support chat widget."),
+  EMBEDDING_PROVIDER: z.enum(["openai", "ollama", "openai-compatible"]).default("openai"),
+  EMBEDDING_BASE_URL: z.string().url().optional(),
+  EMBEDDING_API_KEY: z.string().min(1).optional(),
+  EMBEDDING_MODEL: z.string().min(1).default("text-embedding-3-small"),
+  RAG_TOP_K: z.coerce.number().int().min(0).max(20).default(4),
+  RAG_MIN_SCORE: z.coerce.number().min(0).max(1).default(0.3),
+  RAG_CHUNK_SIZE: z.coerce.number().int().min(200).max(8000).default(1200),
+  RAG_CHUNK_OVERLAP: z.coerce.number().int().min(0).max(2000).default(200),
+  BUILTIN_TOOLS: z.string().default(""),
+  TOOLS_CONFIG_PATH: z.string().min(1).optional(),
+  MAX_TOOL_ROUNDS: z.coerce.number().int().min(1).max(10).default(4),
   WIDGET_API_KEY: z.string().min(24),
   ADMIN_API_KEY: z.string().min(24).optional(),
+  USER_TOKEN_SECRET: z.string().min(32).optional(),
+  REQUIRE_USER_TOKEN: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
   CORS_ORIGIN: z.string().default("*"),
+  TRUST_PROXY_HOPS: z.coerce.number().int().min(0).max(10).default(0),
   WIDGET_BUNDLE_PATH: z.string().default("../widget/dist/chat-widget.js"),
   MAX_HISTORY_MESSAGES: z.coerce.number().int().positive().default(30),
+  HISTORY_MAX_TOKENS: z.coerce.number().int().min(500).default(6000),
+  SUMMARY_MODEL: z.string().min(1).optional(),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
-  RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(30)
+  RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(30),
+  RATE_LIMIT_SESSION_MAX_REQUESTS: z.coerce.number().int().positive().default(20),
+  RATE_LIMIT_API_KEY_MAX_REQUESTS: z.coerce.number().int().positive().default(600),
+  RATE_LIMIT_TENANT_MAX_REQUESTS: z.coerce.number().int().positive().default(1200),
+  RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  REDIS_URL: z
+    .string()
+    .regex(/^rediss?:\/\//, "REDIS_URL must start with redis:// or rediss://")
+    .optional()
+}).superRefine((value, ctx) => {
+  if (value.LLM_PROVIDER === "openai" && !value.LLM_API_KEY && !value.OPENAI_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["OPENAI_API_KEY"],
+      message: "OPENAI_API_KEY (or LLM_API_KEY) is required when LLM_PROVIDER=openai"
+    });
+  }
+
+  if (value.LLM_PROVIDER === "anthropic" && !value.LLM_API_KEY && !value.ANTHROPIC_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["ANTHROPIC_API_KEY"],
+      message: "ANTHROPIC_API_KEY (or LLM_API_KEY) is required when LLM_PROVIDER=anthropic"
+    });
+  }
+
+  if (value.LLM_PROVIDER === "openai-compatible" && !value.LLM_BASE_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["LLM_BASE_URL"],
+      message: "LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible"
+    });
+  }
+
+  if (value.EMBEDDING_PROVIDER === "openai-compatible" && !value.EMBEDDING_BASE_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["EMBEDDING_BASE_URL"],
+      message: "EMBEDDING_BASE_URL is required when EMBEDDING_PROVIDER=openai-compatible"
+    });
+  }
+
+  if ((value.LLM_PROVIDER === "anthropic" || value.LLM_PROVIDER === "ollama") && !value.LLM_MODEL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["LLM_MODEL"],
+      message: `LLM_MODEL is required when LLM_PROVIDER=${value.LLM_PROVIDER}`
+    });
+  }
+
+  if (value.RATE_LIMIT_STORE === "redis" && !value.REDIS_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["REDIS_URL"],
+      message: "REDIS_URL is required when RATE_LIMIT_STORE=redis"
+    });
+  }
+
+  if (value.REQUIRE_USER_TOKEN && !value.USER_TOKEN_SECRET) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["USER_TOKEN_SECRET"],
+      message: "USER_TOKEN_SECRET is required when REQUIRE_USER_TOKEN=true"
+    });
+  }
 });
 
 export const env = envSchema.parse(process.env);
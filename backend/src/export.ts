@@ -0,0 +1,55 @@
+import type { Writable } from "node:stream";
+import { ZipFile } from "yazl";
+
+// Resolves once `output` can take more data, or when it closed and nothing more will be read.
+function waitForDrain(output: Writable): Promise<void> {
+  if (!output.writableNeedDrain || output.destroyed) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      output.off("drain", done);
+      output.off("close", done);
+      resolve();
+    };
+
+    output.once("drain", done);
+    output.once("close", done);
+  });
+}
+
+/**
+ * Streams a zip archive to `output` entry by entry. Each file is added once `output` has drained,
+ * so a bulk export only holds the files still being sent in memory. `output` is left open.
+ */
+export function createZipWriter(output: Writable) {
+  const zip = new ZipFile();
+  const usedNames = new Set<string>();
+
+  zip.outputStream.pipe(output, { end: false });
+
+  return {
+    async addFile(requestedName: string, content: string, modifiedAt: number) {
+      let name = requestedName;
+
+      for (let copy = 2; usedNames.has(name); copy += 1) {
+        name = requestedName.replace(/(\.[^.]+)?$/, `-${copy}$1`);
+      }
+
+      usedNames.add(name);
+      zip.addBuffer(Buffer.from(content, "utf8"), name, { mtime: new Date(modifiedAt) });
+      await waitForDrain(output);
+    },
+
+    async finish() {
+      await new Promise<void>((resolve, reject) => {
+        zip.outputStream.once("end", resolve);
+        zip.outputStream.once("error", reject);
+        // A closed output stops reading, so the archive would never end.
+        output.once("close", resolve);
+        zip.end();
+      });
+    }
+  };
+}
@@ -0,0 +1,71 @@
+export type IdempotencyCache<T> = {
+  /**
+   * Runs `start` once per key; repeats within the TTL share its promise, in flight or settled.
+   * Returns null when the key was first used with a different `fingerprint` (e.g. another
+   * message). A rejected run, or one the cache's `retain` check turns down, is forgotten so the
+   * request can be retried.
+   */
+  run(key: string, fingerprint: string, start: () => Promise<T>): Promise<T> | null;
+};
+
+/** A stored message used the same key with different content. */
+export class IdempotencyConflictError extends Error {}
+
+type CacheEntry<T> = {
+  fingerprint: string;
+  result: Promise<T>;
+  expiresAt: number;
+};
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Process-local, like the memory rate limit store. It lets a repeat share a request still in flight
+ * on this instance; finished replies are also found in Convex by their `clientMessageId`.
+ */
+export function createIdempotencyCache<T>(
+  ttlMs: number,
+  /** Whether a fulfilled result is worth replaying, e.g. false for a refusal or a failed reply. */
+  retain: (result: T) => boolean | Promise<boolean> = () => true
+): IdempotencyCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+
+  return {
+    run(key, fingerprint, start) {
+      const existing = entries.get(key);
+
+      if (existing && existing.expiresAt > Date.now()) {
+        return existing.fingerprint === fingerprint ? existing.result : null;
+      }
+
+      const result = start();
+      const entry = { fingerprint, result, expiresAt: Date.now() + ttlMs };
+      entries.set(key, entry);
+
+      const forget = () => {
+        if (entries.get(key) === entry) {
+          entries.delete(key);
+        }
+      };
+
+      result.then(retain).then((keep) => {
+        if (!keep) {
+          forget();
+        }
+      }, forget);
+
+      return result;
+    }
+  };
+}
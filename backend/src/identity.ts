@@ -0,0 +1,114 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+
+export type VerifiedUser = {
+  userId: string;
+  email?: string;
+  name?: string;
+};
+
+export type UserTokenVerification = { ok: true; user: VerifiedUser } | { ok: false; error: string };
+
+const tokenHeaderSchema = z.object({
+  alg: z.literal("HS256"),
+  typ: z.string().optional()
+});
+
+const tokenClaimsSchema = z
+  .object({
+    sub: z.string().min(1).max(256).optional(),
+    userId: z.string().min(1).max(256).optional(),
+    email: z.string().email().max(320).optional(),
+    name: z.string().min(1).max(200).optional(),
+    exp: z.number(),
+    iat: z.number().optional()
+  })
+  .refine((claims) => Boolean(claims.userId ?? claims.sub), {
+    message: "Token must include userId or sub"
+  });
+
+/** The session is bound to another user, or its secret was missing or wrong. */
+export class SessionForbiddenError extends Error {}
+
+/**
+ * Anonymous conversations are bound to a secret when they are created, since anyone can learn or
+ * guess a session ID. Clients send it as `x-session-secret`; a client that sends none gets one
+ * issued with the reply that created the conversation.
+ */
+export function createSessionSecret(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Only the hash is stored, so a leaked database row does not grant access to the thread.
+export function hashSessionSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+
+  return (
+    expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+/**
+ * Verifies an HS256 JWT signed by the host site with `USER_TOKEN_SECRET`. The token must carry
+ * `exp` (seconds since epoch) and `userId` or `sub`; `email` and `name` are optional.
+ */
+export function verifyUserToken(
+  token: string,
+  secret: string,
+  now = Date.now()
+): UserTokenVerification {
+  const segments = token.split(".");
+
+  if (segments.length !== 3) {
+    return { ok: false, error: "Malformed user token" };
+  }
+
+  const [encodedHeader, encodedClaims, signature] = segments;
+  const expectedSignature = createHmac("sha256", secret)
+    .update(`${encodedHeader}.${encodedClaims}`)
+    .digest("base64url");
+
+  if (!signaturesMatch(expectedSignature, signature)) {
+    return { ok: false, error: "Invalid user token signature" };
+  }
+
+  let header: z.SafeParseReturnType<unknown, z.infer<typeof tokenHeaderSchema>>;
+  let claims: z.SafeParseReturnType<unknown, z.infer<typeof tokenClaimsSchema>>;
+
+  try {
+    header = tokenHeaderSchema.safeParse(decodeSegment(encodedHeader));
+    claims = tokenClaimsSchema.safeParse(decodeSegment(encodedClaims));
+  } catch {
+    return { ok: false, error: "Malformed user token" };
+  }
+
+  if (!header.success) {
+    return { ok: false, error: "Unsupported user token algorithm" };
+  }
+
+  if (!claims.success) {
+    return { ok: false, error: "Invalid user token claims" };
+  }
+
+  if (claims.data.exp * 1000 <= now) {
+    return { ok: false, error: "User token expired" };
+  }
+
+  return {
+    ok: true,
+    user: {
+      userId: (claims.data.userId ?? claims.data.sub) as string,
+      email: claims.data.email,
+      name: claims.data.name
+    }
+  };
+}
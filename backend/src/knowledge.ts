@@ -0,0 +1,147 @@
+export type DocumentFormat = "markdown" | "html" | "text";
+
+export type KnowledgeChunk = {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+};
+
+export type ChatSource = {
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  chunkIndex: number;
+  score: number;
+};
+
+export type ChunkingOptions = {
+  chunkSize: number;
+  overlap: number;
+};
+
+// Must match the `documentChunks.by_embedding` vector index in convex/schema.ts.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " "
+};
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+}
+
+export function extractDocumentText(content: string, format: DocumentFormat): string {
+  const text = format === "html" ? htmlToText(content) : content;
+
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/g, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function splitOversizedBlock(block: string, chunkSize: number): string[] {
+  const pieces: string[] = [];
+  let remaining = block;
+
+  while (remaining.length > chunkSize) {
+    // Prefer breaking at a sentence or line end inside the window.
+    const window = remaining.slice(0, chunkSize);
+    const breakAt = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+    const cut = breakAt > chunkSize / 2 ? breakAt + 1 : chunkSize;
+
+    pieces.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+
+  if (remaining) {
+    pieces.push(remaining);
+  }
+
+  return pieces;
+}
+
+/**
+ * Splits extracted document text into overlapping chunks. Paragraphs are kept together where
+ * possible and markdown headings always start a new chunk so each section embeds on its own.
+ */
+export function chunkDocumentText(text: string, options: ChunkingOptions): string[] {
+  const blocks = text
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block) => splitOversizedBlock(block, options.chunkSize));
+
+  const chunks: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = "";
+  };
+
+  for (const block of blocks) {
+    const startsSection = /^#{1,6}\s/.test(block);
+
+    if (current && (startsSection || current.length + block.length + 2 > options.chunkSize)) {
+      const previous = current;
+      flush();
+
+      const overlapText =
+        startsSection || options.overlap === 0 ? "" : previous.slice(-options.overlap);
+
+      if (overlapText && overlapText.length + block.length + 2 <= options.chunkSize) {
+        current = overlapText;
+      }
+    }
+
+    current = current ? `${current}\n\n${block}` : block;
+  }
+
+  flush();
+  return chunks;
+}
+
+export function buildKnowledgePrompt(chunks: KnowledgeChunk[]): string {
+  const excerpts = chunks
+    .map((chunk, index) => `[${index + 1}] ${chunk.title}\n${chunk.content}`)
+    .join("\n\n---\n\n");
+
+  return [
+    "Answer using the knowledge base excerpts below when they are relevant.",
+    "If they do not contain the answer, say that you do not know instead of guessing.",
+    "Cite excerpts by their number, for example [1].",
+    "",
+    excerpts
+  ].join("\n");
+}
+
+export function toChatSources(chunks: KnowledgeChunk[]): ChatSource[] {
+  return chunks.map((chunk) => ({
+    documentId: chunk.documentId,
+    title: chunk.title,
+    sourceUrl: chunk.sourceUrl,
+    chunkIndex: chunk.chunkIndex,
+    score: chunk.score
+  }));
+}
@@ -0,0 +1,720 @@
+export type LlmProviderName = "openai" | "anthropic" | "ollama" | "openai-compatible";
+
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments exactly as produced by the model. */
+  arguments: string;
+};
+
+export type LlmToolDefinition = {
+  name: string;
+  description: string;
+  /** JSON schema describing the tool arguments. */
+  parameters: Record<string, unknown>;
+};
+
+export type LlmMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LlmToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export type LlmChatRequest = {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  tools?: LlmToolDefinition[];
+  onToken?: (token: string) => void;
+  /** Aborting cancels the upstream request; whatever streamed so far is still returned. */
+  signal?: AbortSignal;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type LlmChatResult = {
+  text: string;
+  toolCalls: LlmToolCall[];
+  /** Token counts reported by the provider; null when it did not send any. */
+  usage: LlmUsage | null;
+  /** True when `signal` stopped the stream before the model finished. */
+  interrupted: boolean;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  streamChat(request: LlmChatRequest): Promise<LlmChatResult>;
+};
+
+export type LlmProviderOptions = {
+  provider: LlmProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  maxTokens: number;
+};
+
+type OpenAIChatCompletionChunk = {
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+  }>;
+};
+
+type AnthropicUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+};
+
+type AnthropicStreamEvent = {
+  type?: string;
+  index?: number;
+  message?: {
+    usage?: AnthropicUsage;
+  };
+  usage?: AnthropicUsage;
+  content_block?: {
+    type?: string;
+    id?: string;
+    name?: string;
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+  };
+  error?: {
+    message?: string;
+  };
+};
+
+type OllamaChatChunk = {
+  message?: {
+    content?: string;
+    tool_calls?: Array<{
+      function?: {
+        name?: string;
+        arguments?: Record<string, unknown>;
+      };
+    }>;
+  };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+};
+
+const DEFAULT_BASE_URLS: Record<Exclude<LlmProviderName, "openai-compatible">, string> = {
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com",
+  ollama: "http://localhost:11434"
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+async function ensureStreamingResponse(label: string, response: Response) {
+  if (!response.ok || !response.body) {
+    const details = await response.text();
+    throw new Error(`${label} request failed (${response.status}): ${details}`);
+  }
+
+  return response.body;
+}
+
+// Splits a streamed body on `delimiter` and hands every complete chunk to `onChunk`.
+async function readDelimitedStream(
+  body: ReadableStream<Uint8Array>,
+  delimiter: string,
+  onChunk: (chunk: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    while (true) {
+      const boundary = buffer.indexOf(delimiter);
+
+      if (boundary === -1) {
+        break;
+      }
+
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + delimiter.length);
+      onChunk(chunk);
+    }
+  }
+
+  if (buffer.trim()) {
+    onChunk(buffer);
+  }
+}
+
+// An abort from the caller ends the read quietly so the partial answer can be kept; any other
+// failure is rethrown.
+async function readUntilAborted(reading: Promise<void>, signal: AbortSignal | undefined) {
+  try {
+    await reading;
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+  }
+}
+
+function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  return readDelimitedStream(body, "\n\n", (rawEvent) => {
+    for (const rawLine of rawEvent.split("\n")) {
+      const line = rawLine.trim();
+
+      if (!line.startsWith("data:")) {
+        continue;
+      }
+
+      const data = line.slice(5).trim();
+
+      if (data && data !== "[DONE]") {
+        onData(data);
+      }
+    }
+  });
+}
+
+function parseJson<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  return parseJson<Record<string, unknown>>(raw || "{}") ?? {};
+}
+
+function toOpenAiMessages(messages: LlmMessage[]) {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+function createOpenAiProvider(
+  name: "openai" | "openai-compatible",
+  baseUrl: string,
+  apiKey: string | undefined
+): LlmProvider {
+  const label = name === "openai" ? "OpenAI" : "OpenAI-compatible";
+
+  return {
+    name,
+    async streamChat({ model, messages, temperature, tools, onToken, signal }) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          stream: true,
+          // Adds a final chunk with token counts for the whole response. Compatible servers may
+          // reject the unknown field, so they are not asked; the backend estimates their usage.
+          ...(name === "openai" ? { stream_options: { include_usage: true } } : {}),
+          temperature,
+          messages: toOpenAiMessages(messages),
+          ...(tools?.length
+            ? {
+                tools: tools.map((tool) => ({
+                  type: "function",
+                  function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                  }
+                }))
+              }
+            : {})
+        })
+      });
+
+      const body = await ensureStreamingResponse(label, response);
+      let text = "";
+      let usage: LlmUsage | null = null;
+      // Tool call names and arguments arrive in fragments keyed by their position.
+      const toolCalls = new Map<number, LlmToolCall>();
+
+      const reading = readServerSentEvents(body, (data) => {
+        const chunk = parseJson<OpenAIChatCompletionChunk>(data);
+        const delta = chunk?.choices?.[0]?.delta;
+
+        if (chunk?.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens ?? 0,
+            completionTokens: chunk.usage.completion_tokens ?? 0
+          };
+        }
+
+        for (const fragment of delta?.tool_calls ?? []) {
+          const existing = toolCalls.get(fragment.index) ?? { id: "", name: "", arguments: "" };
+          existing.id = fragment.id ?? existing.id;
+          existing.name += fragment.function?.name ?? "";
+          existing.arguments += fragment.function?.arguments ?? "";
+          toolCalls.set(fragment.index, existing);
+        }
+
+        const token = delta?.content;
+
+        if (!token) {
+          return;
+        }
+
+        text += token;
+        onToken?.(token);
+      });
+
+      await readUntilAborted(reading, signal);
+
+      return {
+        text,
+        toolCalls: [...toolCalls.entries()]
+          .sort(([left], [right]) => left - right)
+          .map(([index, call]) => ({ ...call, id: call.id || `call_${index}` })),
+        usage,
+        interrupted: signal?.aborted ?? false
+      };
+    }
+  };
+}
+
+function toAnthropicMessages(messages: LlmMessage[]) {
+  const converted: Array<{ role: "user" | "assistant"; content: unknown }> = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const block = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content
+      };
+      const previous = converted[converted.length - 1];
+
+      // All results for one assistant turn must be sent back in a single user message.
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      converted.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.name,
+            input: parseToolArguments(call.arguments)
+          }))
+        ]
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: message.content });
+  }
+
+  return converted;
+}
+
+function createAnthropicProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  maxTokens: number
+): LlmProvider {
+  return {
+    name: "anthropic",
+    async streamChat({ model, messages, temperature, tools, onToken, signal }) {
+      // The Messages API takes the system prompt as a top-level field, not as a message.
+      const system = messages
+        .filter((message) => message.role === "system")
+        .map((message) => message.content)
+        .join("\n\n");
+
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: "POST",
+        signal,
+        headers: {
+          "x-api-key": apiKey ?? "",
+          "anthropic-version": ANTHROPIC_VERSION,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          stream: true,
+          temperature,
+          ...(system ? { system } : {}),
+          messages: toAnthropicMessages(messages),
+          ...(tools?.length
+            ? {
+                tools: tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  input_schema: tool.parameters
+                }))
+              }
+            : {})
+        })
+      });
+
+      const body = await ensureStreamingResponse("Anthropic", response);
+      let text = "";
+      let usage: LlmUsage | null = null;
+      const toolCalls = new Map<number, LlmToolCall>();
+
+      const reading = readServerSentEvents(body, (data) => {
+        const event = parseJson<AnthropicStreamEvent>(data);
+
+        if (event?.type === "error") {
+          throw new Error(`Anthropic stream failed: ${event.error?.message ?? "unknown error"}`);
+        }
+
+        // Input tokens (including prompt cache reads and writes) come first; the output count is
+        // cumulative in `message_delta`.
+        if (event?.type === "message_start" && event.message?.usage) {
+          const inputUsage = event.message.usage;
+          usage = {
+            promptTokens:
+              (inputUsage.input_tokens ?? 0) +
+              (inputUsage.cache_creation_input_tokens ?? 0) +
+              (inputUsage.cache_read_input_tokens ?? 0),
+            completionTokens: inputUsage.output_tokens ?? 0
+          };
+          return;
+        }
+
+        if (event?.type === "message_delta" && event.usage) {
+          usage = {
+            promptTokens: usage?.promptTokens ?? 0,
+            completionTokens: event.usage.output_tokens ?? usage?.completionTokens ?? 0
+          };
+          return;
+        }
+
+        if (event?.type === "content_block_start" && event.content_block?.type === "tool_use") {
+          toolCalls.set(event.index ?? toolCalls.size, {
+            id: event.content_block.id ?? "",
+            name: event.content_block.name ?? "",
+            arguments: ""
+          });
+          return;
+        }
+
+        if (event?.type !== "content_block_delta") {
+          return;
+        }
+
+        if (event.delta?.type === "input_json_delta") {
+          const call = toolCalls.get(event.index ?? -1);
+
+          if (call) {
+            call.arguments += event.delta.partial_json ?? "";
+          }
+          return;
+        }
+
+        const token = event.delta?.type === "text_delta" ? event.delta.text : undefined;
+
+        if (!token) {
+          return;
+        }
+
+        text += token;
+        onToken?.(token);
+      });
+
+      await readUntilAborted(reading, signal);
+
+      return {
+        text,
+        toolCalls: [...toolCalls.values()],
+        usage,
+        interrupted: signal?.aborted ?? false
+      };
+    }
+  };
+}
+
+function toOllamaMessages(messages: LlmMessage[]) {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_name: message.name, content: message.content };
+    }
+
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: parseToolArguments(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+function createOllamaProvider(baseUrl: string): LlmProvider {
+  return {
+    name: "ollama",
+    async streamChat({ model, messages, temperature, tools, onToken, signal }) {
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: "POST",
+        signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: toOllamaMessages(messages),
+          ...(temperature === undefined ? {} : { options: { temperature } }),
+          ...(tools?.length
+            ? {
+                tools: tools.map((tool) => ({
+                  type: "function",
+                  function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                  }
+                }))
+              }
+            : {})
+        })
+      });
+
+      const body = await ensureStreamingResponse("Ollama", response);
+      let text = "";
+      let usage: LlmUsage | null = null;
+      const toolCalls: LlmToolCall[] = [];
+
+      // Ollama streams newline-delimited JSON rather than server-sent events.
+      const reading = readDelimitedStream(body, "\n", (line) => {
+        if (!line.trim()) {
+          return;
+        }
+
+        const chunk = parseJson<OllamaChatChunk>(line);
+
+        if (chunk?.error) {
+          throw new Error(`Ollama stream failed: ${chunk.error}`);
+        }
+
+        if (chunk?.done) {
+          usage = {
+            promptTokens: chunk.prompt_eval_count ?? 0,
+            completionTokens: chunk.eval_count ?? 0
+          };
+        }
+
+        // Ollama sends complete tool calls without IDs, so number them locally.
+        for (const call of chunk?.message?.tool_calls ?? []) {
+          toolCalls.push({
+            id: `call_${toolCalls.length}`,
+            name: call.function?.name ?? "",
+            arguments: JSON.stringify(call.function?.arguments ?? {})
+          });
+        }
+
+        const token = chunk?.message?.content;
+
+        if (!token) {
+          return;
+        }
+
+        text += token;
+        onToken?.(token);
+      });
+
+      await readUntilAborted(reading, signal);
+
+      return { text, toolCalls, usage, interrupted: signal?.aborted ?? false };
+    }
+  };
+}
+
+export function createLlmProvider(options: LlmProviderOptions): LlmProvider {
+  switch (options.provider) {
+    case "openai":
+      return createOpenAiProvider(
+        "openai",
+        trimTrailingSlash(options.baseUrl ?? DEFAULT_BASE_URLS.openai),
+        options.apiKey
+      );
+    case "openai-compatible":
+      if (!options.baseUrl) {
+        throw new Error("LLM_BASE_URL is required for the openai-compatible provider.");
+      }
+      return createOpenAiProvider(
+        "openai-compatible",
+        trimTrailingSlash(options.baseUrl),
+        options.apiKey
+      );
+    case "anthropic":
+      return createAnthropicProvider(
+        trimTrailingSlash(options.baseUrl ?? DEFAULT_BASE_URLS.anthropic),
+        options.apiKey,
+        options.maxTokens
+      );
+    case "ollama":
+      return createOllamaProvider(trimTrailingSlash(options.baseUrl ?? DEFAULT_BASE_URLS.ollama));
+  }
+}
+
+export type EmbeddingProviderName = "openai" | "ollama" | "openai-compatible";
+
+export type EmbeddingProvider = {
+  name: EmbeddingProviderName;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+export type EmbeddingProviderOptions = {
+  provider: EmbeddingProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+};
+
+type OpenAIEmbeddingResponse = {
+  data?: Array<{
+    index: number;
+    embedding: number[];
+  }>;
+};
+
+type OllamaEmbeddingResponse = {
+  embeddings?: number[][];
+};
+
+async function postJson<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const details = await response.text();
+    throw new Error(`${label} request failed (${response.status}): ${details}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export function createEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  if (options.provider === "ollama") {
+    const baseUrl = trimTrailingSlash(options.baseUrl ?? DEFAULT_BASE_URLS.ollama);
+
+    return {
+      name: "ollama",
+      async embed(texts) {
+        const result = await postJson<OllamaEmbeddingResponse>(
+          "Ollama embeddings",
+          `${baseUrl}/api/embed`,
+          {},
+          { model: options.model, input: texts }
+        );
+
+        return result.embeddings ?? [];
+      }
+    };
+  }
+
+  if (options.provider === "openai-compatible" && !options.baseUrl) {
+    throw new Error("EMBEDDING_BASE_URL is required for the openai-compatible embedding provider.");
+  }
+
+  const baseUrl = trimTrailingSlash(options.baseUrl ?? DEFAULT_BASE_URLS.openai);
+  const headers: Record<string, string> = options.apiKey
+    ? { Authorization: `Bearer ${options.apiKey}` }
+    : {};
+
+  return {
+    name: options.provider,
+    async embed(texts) {
+      const result = await postJson<OpenAIEmbeddingResponse>(
+        "Embeddings",
+        `${baseUrl}/embeddings`,
+        headers,
+        { model: options.model, input: texts }
+      );
+
+      return (result.data ?? [])
+        .sort((left, right) => left.index - right.index)
+        .map((item) => item.embedding);
+    }
+  };
+}
@@ -0,0 +1,165 @@
+import { Redis } from "ioredis";
+
+export type RateLimitDimension = "ip" | "session" | "apiKey" | "tenant";
+
+export type RateLimitRule = {
+  dimension: RateLimitDimension;
+  key: string;
+  limit: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** The rule closest to (or over) its limit; this is what the `RateLimit-*` headers describe. */
+  dimension: RateLimitDimension;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+export type RateLimitCounter = {
+  count: number;
+  resetAt: number;
+};
+
+export type RateLimitStore = {
+  name: "memory" | "redis";
+  /** Counts one hit in the fixed window for `key` and returns the window's total so far. */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+};
+
+export type RateLimiter = {
+  check(rules: RateLimitRule[]): Promise<RateLimitResult | null>;
+};
+
+const MEMORY_SWEEP_INTERVAL_MS = 60_000;
+const REDIS_KEY_PREFIX = "osw:ratelimit:";
+const REDIS_COMMAND_TIMEOUT_MS = 2_000;
+
+// INCR and PEXPIRE in one round trip; the TTL check repairs keys left without an expiry.
+const REDIS_INCREMENT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { count, ttl }
+`;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitCounter>();
+
+  // Expired buckets are dropped periodically so keys that stop sending do not pile up.
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  }, MEMORY_SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+
+  return {
+    name: "memory",
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const existing = buckets.get(key);
+
+      if (!existing || existing.resetAt <= now) {
+        const bucket = { count: 1, resetAt: now + windowMs };
+        buckets.set(key, bucket);
+        return { ...bucket };
+      }
+
+      existing.count += 1;
+      return { ...existing };
+    }
+  };
+}
+
+/**
+ * Shares counters across replicas through Redis or any server speaking its protocol. Accepts
+ * `redis://` and `rediss://` URLs with an optional username, password and database number (e.g.
+ * `redis://:secret@host/1`).
+ */
+export function createRedisRateLimitStore(redisUrl: string): RateLimitStore {
+  const client = new Redis(redisUrl, {
+    lazyConnect: true,
+    commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+    // Fail fast while Redis is down; the limiter lets requests through instead of queueing them.
+    maxRetriesPerRequest: 0
+  });
+
+  client.on("error", (error) => {
+    console.error("Redis connection error", error);
+  });
+
+  return {
+    name: "redis",
+    async increment(key, windowMs) {
+      const reply = await client.eval(
+        REDIS_INCREMENT_SCRIPT,
+        1,
+        `${REDIS_KEY_PREFIX}${key}`,
+        windowMs
+      );
+
+      if (!Array.isArray(reply) || typeof reply[0] !== "number" || typeof reply[1] !== "number") {
+        throw new Error("Unexpected Redis reply to rate limit script");
+      }
+
+      return { count: reply[0], resetAt: Date.now() + reply[1] };
+    }
+  };
+}
+
+/**
+ * Counts a hit against every rule and reports the most constrained one. When the store fails the
+ * request is let through (and logged) rather than taking chat down with it.
+ */
+export function createRateLimiter(store: RateLimitStore, windowMs: number): RateLimiter {
+  return {
+    async check(rules) {
+      if (rules.length === 0) {
+        return null;
+      }
+
+      let counters: RateLimitCounter[];
+
+      try {
+        counters = await Promise.all(
+          rules.map((rule) => store.increment(`${rule.dimension}:${rule.key}`, windowMs))
+        );
+      } catch (error) {
+        console.error(`Rate limit store (${store.name}) failed; allowing request`, error);
+        return null;
+      }
+
+      let result: RateLimitResult | null = null;
+
+      for (const [index, rule] of rules.entries()) {
+        const counter = counters[index];
+        const candidate: RateLimitResult = {
+          allowed: counter.count <= rule.limit,
+          dimension: rule.dimension,
+          limit: rule.limit,
+          remaining: Math.max(0, rule.limit - counter.count),
+          resetAt: counter.resetAt
+        };
+
+        if (
+          !result ||
+          (result.allowed && !candidate.allowed) ||
+          (result.allowed === candidate.allowed && candidate.remaining < result.remaining)
+        ) {
+          result = candidate;
+        }
+      }
+
+      return result;
+    }
+  };
+}
@@ -1,61 +1,298 @@
 import { existsSync } from "node:fs";
-import { timingSafeEqual } from "node:crypto";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { ConvexHttpClient } from "convex/browser";
+import { ConvexClient, ConvexHttpClient } from "convex/browser";
 import { anyApi } from "convex/server";
 import cors, { type CorsOptions } from "cors";
 import express, { type Request, type Response } from "express";
 import { z } from "zod";
+import {
+  buildSummaryMessages,
+  estimateMessageTokens,
+  estimateTokens,
+  selectHistory,
+  type ContextMessage
+} from "./context.js";
 import { env } from "./env.js";
+import {
+  EXPORT_FORMATS,
+  formatConversationExport,
+  getExportFileName,
+  toExportRecord,
+  type ExportFormat
+} from "shared/export";
+import { createZipWriter } from "./export.js";
+import { createIdempotencyCache, IdempotencyConflictError } from "./idempotency.js";
+import {
+  createSessionSecret,
+  hashSessionSecret,
+  SessionForbiddenError,
+  verifyUserToken,
+  type VerifiedUser
+} from "./identity.js";
+import {
+  buildKnowledgePrompt,
+  chunkDocumentText,
+  EMBEDDING_DIMENSIONS,
+  extractDocumentText,
+  toChatSources,
+  type ChatSource,
+  type DocumentFormat,
+  type KnowledgeChunk
+} from "./knowledge.js";
+import {
+  createEmbeddingProvider,
+  createLlmProvider,
+  type LlmChatResult,
+  type LlmMessage,
+  type LlmToolCall,
+  type LlmUsage
+} from "./llm.js";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  createRedisRateLimitStore,
+  type RateLimitResult,
+  type RateLimitRule
+} from "./rate-limit.js";
+import { createStreamRegistry, type ChatStream } from "./streams.js";
+import {
+  DEFAULT_TENANT_SLUG,
+  generateApiKey,
+  getApiKeyPrefix,
+  getUrlOrigin,
+  hashApiKey,
+  isOriginAllowed,
+  normalizeOriginPattern,
+  type ApiKeyKind,
+  type Tenant
+} from "./tenants.js";
+import {
+  builtinTools,
+  createToolRegistry,
+  loadWebhookTools,
+  type ToolContext,
+  type ToolDefinition
+} from "./tools.js";
+import { addUsage, calculateCostUsd, parseModelPrices } from "./usage.js";
+import {
+  createWebhookUrlSchema,
+  generateWebhookSecret,
+  webhookEventsSchema,
+  type WebhookDelivery,
+  type WebhookSummary
+} from "./webhooks.js";
 
-type HistoryMessage = {
-  role: "user" | "assistant";
-  content: string;
+type ConversationHistory = {
+  /** Running summary of the turns that are no longer sent verbatim. */
+  summary: string | null;
+  messages: ContextMessage[];
+};
+
+type ConversationStatus = "ai" | "pending_human" | "human" | "closed";
+
+type AssistantProfile = {
+  _id: string;
+  _creationTime: number;
+  name: string;
+  systemPrompt: string;
+  model?: string;
+  temperature?: number;
+  welcomeMessage?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type KnowledgeDocument = {
+  _id: string;
+  _creationTime: number;
+  title: string;
+  format: DocumentFormat;
+  sourceUrl?: string;
+  chunkCount: number;
+  createdAt: number;
 };
 
 type ConversationSummary = {
   _id: string;
   _creationTime: number;
   sessionId: string;
+  assistantId?: string;
+  userId?: string;
+  userEmail?: string;
+  userName?: string;
+  status?: ConversationStatus;
+  tags?: string[];
+  /** Thumbs up and down on the assistant's replies. */
+  feedbackUp?: number;
+  feedbackDown?: number;
   createdAt: number;
   updatedAt: number;
   lastMessage: string;
+  /** Best matching message when listing with a search query. */
+  matchedContent?: string;
+};
+
+type ConversationPage = {
+  page: ConversationSummary[];
+  isDone: boolean;
+  continueCursor: string;
 };
 
 type ConversationMessage = {
   _id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent";
   content: string;
+  authorName?: string;
+  interrupted?: boolean;
   createdAt: number;
 };
 
+type ClientMessageTurn = {
+  message: ConversationMessage | null;
+  reply: ConversationMessage | null;
+};
+
+type SessionMessages = {
+  status: ConversationStatus;
+  messages: ConversationMessage[];
+};
+
+type SessionMessagesPage = SessionMessages & {
+  hasMore: boolean;
+  /** Pass back as `cursor` to get the previous page; null on the oldest page. */
+  cursor: string | null;
+};
+
 type ConversationThread = {
   conversation: ConversationSummary;
   messages: ConversationMessage[];
 };
 
 type ChatStreamPayload =
-  | { type: "start"; conversationId: string }
+  | {
+      type: "start";
+      conversationId: string;
+      userMessageId: string;
+      streamId: string;
+      /** Set when this request created an anonymous conversation; see `x-session-secret`. */
+      sessionSecret?: string;
+    }
+  | { type: "sources"; sources: ChatSource[] }
   | { type: "token"; token: string }
-  | { type: "done"; message: string; conversationId: string }
+  | { type: "tool_call"; id: string; name: string; label: string }
+  | { type: "tool_result"; id: string; name: string; ok: boolean }
+  | { type: "handoff"; status: "pending_human" | "human" }
+  | {
+      type: "done";
+      message: string;
+      conversationId: string;
+      messageId?: string;
+      /** Set when the stream was cancelled; `message` is the part generated until then. */
+      interrupted?: boolean;
+    }
   | { type: "error"; error: string };
 
-type OpenAIChatCompletionChunk = {
-  choices?: Array<{
-    delta?: {
-      content?: string;
-    };
-  }>;
+type ChatStreamStart =
+  | {
+      conversationId: string;
+      stream: ChatStream<ChatStreamPayload>;
+      /** Settles when the stream finishes; false when it failed or stored no reply. */
+      completed: Promise<boolean>;
+    }
+  | { conversationId: string; exhaustedBudget: BudgetStatus };
+
+type ConversationEventPayload =
+  | { type: "ready"; status: ConversationStatus; now: number }
+  | { type: "message"; message: ConversationMessage }
+  | { type: "status"; status: ConversationStatus };
+
+type AdminContext = {
+  tenant: Tenant;
+  // The default tenant's admin key (ADMIN_API_KEY) can manage every tenant.
+  isPlatformAdmin: boolean;
+};
+
+type BudgetCheck = {
+  period: "day" | "month" | "session";
+  metric: "tokens" | "usd";
+  limit: number;
+  used: number;
+  state: "ok" | "warning" | "exhausted";
+  /** When a day or month limit starts over; null for session limits. */
+  resetAt: number | null;
+};
+
+type BudgetStatus = {
+  state: "ok" | "warning" | "exhausted";
+  warningRatio: number;
+  checks: BudgetCheck[];
 };
 
-type RateLimitBucket = {
-  count: number;
-  resetAt: number;
+type TenantKeyCacheEntry = {
+  tenant: Tenant;
+  expiresAt: number;
 };
 
 const app = express();
 const convex = new ConvexHttpClient(env.CONVEX_URL);
+// Websocket client used only for live query subscriptions behind the SSE endpoint.
+const convexRealtime = new ConvexClient(env.CONVEX_URL);
+
+const EVENTS_HEARTBEAT_INTERVAL_MS = 25_000;
+// A few tabs per visitor; each stream holds a Convex subscription open.
+const MAX_EVENT_STREAMS_PER_SESSION = 5;
+// Rotated keys keep working on other instances for at most this long.
+const TENANT_KEY_CACHE_TTL_MS = 60_000;
+const TENANT_BACKFILL_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DATE_RANGE_MS = 366 * DAY_MS;
+const EXPORT_PAGE_SIZE = 25;
+// A stream nobody reads keeps generating this long, so a client whose connection dropped can resume.
+const STREAM_DETACH_GRACE_MS = 30_000;
+// Finished streams stay replayable, and idempotency keys are remembered, for this long.
+const STREAM_RETENTION_MS = 10 * 60_000;
+
+const llm = createLlmProvider({
+  provider: env.LLM_PROVIDER,
+  baseUrl: env.LLM_BASE_URL,
+  apiKey:
+    env.LLM_API_KEY ??
+    (env.LLM_PROVIDER === "anthropic" ? env.ANTHROPIC_API_KEY : env.OPENAI_API_KEY),
+  maxTokens: env.LLM_MAX_TOKENS
+});
+const llmModel = env.LLM_MODEL ?? env.OPENAI_MODEL;
+const modelPrices = parseModelPrices(env.MODEL_PRICES);
+
+const embedder = createEmbeddingProvider({
+  provider: env.EMBEDDING_PROVIDER,
+  baseUrl: env.EMBEDDING_BASE_URL,
+  apiKey: env.EMBEDDING_API_KEY ?? env.OPENAI_API_KEY,
+  model: env.EMBEDDING_MODEL
+});
+
+const rateLimiter = createRateLimiter(
+  env.RATE_LIMIT_STORE === "redis" && env.REDIS_URL
+    ? createRedisRateLimitStore(env.REDIS_URL)
+    : createMemoryRateLimitStore(),
+  env.RATE_LIMIT_WINDOW_MS
+);
+
+const chatStreams = createStreamRegistry<ChatStreamPayload>({
+  retentionMs: STREAM_RETENTION_MS,
+  detachGraceMs: STREAM_DETACH_GRACE_MS
+});
+// Budget refusals and failed replies are not replayed; a retry with the same key tries again.
+const chatStreamStarts = createIdempotencyCache<ChatStreamStart>(STREAM_RETENTION_MS, (started) =>
+  "stream" in started ? started.completed : false
+);
+const chatCompletions = createIdempotencyCache<Awaited<ReturnType<typeof runChatCompletion>>>(
+  STREAM_RETENTION_MS,
+  (result) => !result.exhaustedBudget
+);
+
+const EMBEDDING_BATCH_SIZE = 64;
+const CHUNK_WRITE_BATCH_SIZE = 50;
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -64,6 +301,24 @@ const widgetBundlePath = path.isAbsolute(env.WIDGET_BUNDLE_PATH)
   ? env.WIDGET_BUNDLE_PATH
   : path.resolve(backendDir, env.WIDGET_BUNDLE_PATH);
 
+const enabledBuiltinTools = env.BUILTIN_TOOLS.split(",")
+  .map((name) => name.trim())
+  .filter(Boolean)
+  .map((name): ToolDefinition => {
+    if (!Object.hasOwn(builtinTools, name)) {
+      throw new Error(`Unknown tool "${name}" in BUILTIN_TOOLS.`);
+    }
+
+    return builtinTools[name as keyof typeof builtinTools];
+  });
+const toolsConfigPath = env.TOOLS_CONFIG_PATH
+  ? path.resolve(backendDir, env.TOOLS_CONFIG_PATH)
+  : null;
+const toolRegistry = createToolRegistry([
+  ...enabledBuiltinTools,
+  ...(toolsConfigPath ? loadWebhookTools(toolsConfigPath) : [])
+]);
+
 const configuredOrigins = env.CORS_ORIGIN.split(",")
   .map((origin) => origin.trim())
   .filter(Boolean);
@@ -74,564 +329,4778 @@ if (env.NODE_ENV === "production" && allowAllOrigins) {
   throw new Error("Refusing to start with CORS_ORIGIN='*' in production.");
 }
 
-const rateLimitBuckets = new Map<string, RateLimitBucket>();
+const tenantKeyCache = new Map<string, TenantKeyCacheEntry>();
+// Kept current by a Convex subscription; keyed by tenant ID.
+const tenantAllowedOrigins = new Map<string, string[]>();
+// Soft budget limits already logged, so each is reported once per period.
+const loggedBudgetWarnings = new Set<string>();
+// Open event streams on this instance, keyed by `${tenantId}:${sessionId}`.
+const openEventStreams = new Map<string, number>();
+
+// Printable ASCII, e.g. a UUID generated per submission and reused when retrying it.
+const idempotencyKeySchema = z.string().regex(/^[\x21-\x7e]{1,255}$/);
 
 const chatRequestSchema = z.object({
   sessionId: z.string().regex(/^[A-Za-z0-9._:-]{1,128}$/),
-  message: z.string().min(1).max(4000)
+  message: z.string().min(1).max(4000),
+  assistantId: z.string().min(1).max(128).optional(),
+  // Same as the `Idempotency-Key` header, for clients that cannot set headers.
+  clientMessageId: idempotencyKeySchema.optional()
+});
+
+type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+const createDocumentSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  format: z.enum(["markdown", "html", "text"]).default("markdown"),
+  content: z.string().min(1).max(1_500_000),
+  sourceUrl: z.string().url().max(2000).optional()
 });
 
-const listConversationsSchema = z.object({
-  limit: z.coerce.number().int().positive().max(200).default(100)
+const documentIdParamsSchema = z.object({
+  documentId: z.string().min(1).max(128)
 });
 
 const conversationIdParamsSchema = z.object({
   conversationId: z.string().min(1).max(128)
 });
 
-function writeStreamLine(res: Response, payload: ChatStreamPayload) {
-  res.write(`${JSON.stringify(payload)}\n`);
+const sessionIdParamsSchema = z.object({
+  sessionId: chatRequestSchema.shape.sessionId
+});
+
+const messageIdParamsSchema = z.object({
+  messageId: z.string().min(1).max(128)
+});
+
+const feedbackSchema = z.object({
+  sessionId: chatRequestSchema.shape.sessionId,
+  rating: z.enum(["up", "down"]),
+  comment: z.string().trim().max(1000).optional()
+});
+
+const sessionMessagesQuerySchema = z
+  .object({
+    after: z.coerce.number().int().min(0).optional(),
+    cursor: z.string().min(1).max(2000).optional(),
+    limit: z.coerce.number().int().positive().max(100).default(30)
+  })
+  .refine((value) => value.after === undefined || value.cursor === undefined, {
+    message: "Use either after or cursor"
+  });
+
+const conversationEventsQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).optional()
+});
+
+const chatStreamParamsSchema = z.object({
+  sessionId: chatRequestSchema.shape.sessionId,
+  streamId: z.string().uuid()
+});
+
+// `after` is the `seq` of the last event received.
+const chatStreamResumeQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).default(0)
+});
+
+const dateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const tagSchema = z.string().trim().toLowerCase().min(1).max(40);
+
+// `from` and `to` are inclusive UTC days matched against the last activity in a conversation.
+const listConversationsSchema = z
+  .object({
+    limit: z.coerce.number().int().positive().max(100).default(50),
+    cursor: z.string().min(1).max(4000).optional(),
+    status: z.enum(["ai", "pending_human", "human", "closed"]).optional(),
+    tag: tagSchema.optional(),
+    // Only conversations with a thumbs down on an assistant reply.
+    feedback: z.literal("negative").optional(),
+    from: dateParamSchema.optional(),
+    to: dateParamSchema.optional(),
+    q: z.string().trim().min(1).max(200).optional()
+  })
+  .transform(({ from, to, feedback, ...value }) => ({
+    ...value,
+    negativeFeedback: feedback === "negative" || undefined,
+    from: from ? Date.parse(`${from}T00:00:00Z`) : undefined,
+    to: to ? Date.parse(`${to}T00:00:00Z`) + DAY_MS : undefined
+  }))
+  .refine(
+    ({ from, to }) =>
+      (from === undefined || Number.isFinite(from)) &&
+      (to === undefined || Number.isFinite(to)) &&
+      (from === undefined || to === undefined || from < to),
+    { message: "from must be on or before to" }
+  );
+
+type ConversationListFilters = Omit<z.infer<typeof listConversationsSchema>, "limit" | "cursor">;
+
+// `nextCursor` wraps the Convex cursor with the filters it was issued for, since Convex rejects a
+// cursor reused with other filters. Checking them here turns that into a 400 before any query.
+function encodeListCursor(continueCursor: string, filters: ConversationListFilters): string {
+  return Buffer.from(JSON.stringify({ cursor: continueCursor, filters })).toString("base64url");
 }
 
-function getClientIp(req: Request): string {
-  const forwardedFor = req.header("x-forwarded-for");
-  if (forwardedFor) {
-    return forwardedFor.split(",")[0]?.trim() || "unknown";
+function decodeListCursor(value: string, filters: ConversationListFilters): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as unknown;
+
+    if (
+      typeof decoded !== "object" ||
+      decoded === null ||
+      !("cursor" in decoded) ||
+      typeof decoded.cursor !== "string" ||
+      !("filters" in decoded) ||
+      JSON.stringify(decoded.filters) !== JSON.stringify(filters)
+    ) {
+      return null;
+    }
+
+    return decoded.cursor;
+  } catch {
+    return null;
   }
+}
 
-  return req.ip || req.socket.remoteAddress || "unknown";
+const dateRangeMessage = "from must be on or before to, at most 366 days apart";
+
+// Dates are inclusive UTC days; the default is the last 30 days including today.
+const usageQuerySchema = z
+  .object({
+    from: dateParamSchema.optional(),
+    to: dateParamSchema.optional()
+  })
+  .transform(toDayRange)
+  .refine(isValidDayRange, { message: dateRangeMessage });
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]).default("json")
+});
+
+// Same day range as usage, matched against each conversation's last activity.
+const bulkExportQuerySchema = z
+  .object({
+    format: z.enum(["ndjson", "zip"]).default("ndjson"),
+    // Format of each file inside a zip.
+    fileFormat: exportQuerySchema.shape.format,
+    status: z.enum(["ai", "pending_human", "human", "closed"]).optional(),
+    tag: tagSchema.optional(),
+    from: dateParamSchema.optional(),
+    to: dateParamSchema.optional()
+  })
+  .transform((value) => ({ ...value, ...toDayRange(value) }))
+  .refine(isValidDayRange, { message: dateRangeMessage });
+
+const tokenBudgetSchema = z.number().int().positive().nullable().optional();
+const usdBudgetSchema = z.number().positive().nullable().optional();
+
+// `null` removes a limit; omitted fields are left unchanged.
+const updateBudgetSchema = z
+  .object({
+    dailyTokens: tokenBudgetSchema,
+    monthlyTokens: tokenBudgetSchema,
+    dailyUsd: usdBudgetSchema,
+    monthlyUsd: usdBudgetSchema,
+    sessionTokens: tokenBudgetSchema,
+    sessionUsd: usdBudgetSchema,
+    warningRatio: z.number().gt(0).max(1).nullable().optional()
+  })
+  .strict();
+
+const updateConversationSchema = z
+  .object({
+    status: z.enum(["ai", "pending_human", "human", "closed"]).optional(),
+    // Replaces the whole tag list; send [] to clear it.
+    tags: z.array(tagSchema).max(20).optional()
+  })
+  .refine((value) => value.status !== undefined || value.tags !== undefined, {
+    message: "Provide status or tags"
+  });
+
+const agentMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+  authorName: z.string().trim().min(1).max(120).optional()
+});
+
+const assistantIdParamsSchema = z.object({
+  assistantId: z.string().min(1).max(128)
+});
+
+const userIdParamsSchema = z.object({
+  userId: z.string().min(1).max(256)
+});
+
+// `null` falls back to the deployment's RETENTION_DAYS (set in Convex).
+const updateRetentionSchema = z
+  .object({
+    retentionDays: z.number().int().min(1).max(3650).nullable()
+  })
+  .strict();
+
+const webhookIdParamsSchema = z.object({
+  webhookId: z.string().min(1).max(128)
+});
+
+const webhookDeliveryParamsSchema = webhookIdParamsSchema.extend({
+  deliveryId: z.string().min(1).max(128)
+});
+
+// Development also accepts http and local receivers, e.g. one listening on localhost.
+const webhookUrlSchema = createWebhookUrlSchema(env.NODE_ENV === "development");
+
+const createWebhookSchema = z
+  .object({
+    url: webhookUrlSchema,
+    events: webhookEventsSchema,
+    description: z.string().trim().min(1).max(200).optional()
+  })
+  .strict();
+
+const updateWebhookSchema = createWebhookSchema
+  .extend({ enabled: z.boolean() })
+  .partial()
+  .refine((value) => Object.keys(value).length > 0, { message: "No fields to update" });
+
+const webhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const createAssistantSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  systemPrompt: z.string().trim().min(1).max(20_000),
+  model: z.string().trim().min(1).max(200).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  welcomeMessage: z.string().trim().min(1).max(1000).optional()
+});
+
+const tenantIdParamsSchema = z.object({
+  tenantId: z.string().min(1).max(128)
+});
+
+const createTenantSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{1,47}$/)
+});
+
+const allowedOriginSchema = z.object({
+  origin: z.string().trim().min(1).max(300)
+});
+
+const rotateTenantKeySchema = z.object({
+  kind: z.enum(["widget", "admin"])
+});
+
+// `null` clears an optional field; omitted fields are left unchanged.
+const updateAssistantSchema = createAssistantSchema
+  .extend({
+    model: createAssistantSchema.shape.model.unwrap().nullable(),
+    temperature: createAssistantSchema.shape.temperature.unwrap().nullable(),
+    welcomeMessage: createAssistantSchema.shape.welcomeMessage.unwrap().nullable()
+  })
+  .partial()
+  .refine((value) => Object.keys(value).length > 0, { message: "No fields to update" });
+
+function writeStreamLine(res: Response, payload: ChatStreamPayload) {
+  res.write(`${JSON.stringify(payload)}\n`);
 }
 
-function isWithinRateLimit(req: Request): boolean {
-  const key = getClientIp(req);
-  const now = Date.now();
-  const existing = rateLimitBuckets.get(key);
+function writeServerSentEvent(res: Response, payload: ConversationEventPayload) {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+}
 
-  if (!existing || now > existing.resetAt) {
-    rateLimitBuckets.set(key, {
-      count: 1,
-      resetAt: now + env.RATE_LIMIT_WINDOW_MS
-    });
-    return true;
-  }
+function toDayRange(value: { from?: string; to?: string }): { from: number; to: number } {
+  const to = value.to
+    ? Date.parse(`${value.to}T00:00:00Z`) + DAY_MS
+    : startOfUtcDay(Date.now()) + DAY_MS;
+  const from = value.from ? Date.parse(`${value.from}T00:00:00Z`) : to - 30 * DAY_MS;
 
-  existing.count += 1;
-  return existing.count <= env.RATE_LIMIT_MAX_REQUESTS;
+  return { from, to };
 }
 
-function secureEquals(left: string, right: string): boolean {
-  const leftBuffer = Buffer.from(left);
-  const rightBuffer = Buffer.from(right);
+function isValidDayRange({ from, to }: { from: number; to: number }): boolean {
+  return (
+    Number.isFinite(from) && Number.isFinite(to) && from < to && to - from <= MAX_DATE_RANGE_MS
+  );
+}
 
-  if (leftBuffer.length !== rightBuffer.length) {
-    return false;
+// Resolves once the chunk is buffered or the client has gone away, so large exports stream
+// at the client's pace instead of piling up in memory.
+function writeWithBackpressure(res: Response, chunk: string | Buffer): Promise<void> {
+  if (res.write(chunk)) {
+    return Promise.resolve();
   }
 
-  return timingSafeEqual(leftBuffer, rightBuffer);
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+
+    res.once("drain", done);
+    res.once("close", done);
+  });
 }
 
-function getChatApiKey(req: Request): string | null {
-  return req.header("x-api-key") ?? req.header("x-widget-api-key") ?? null;
+function setDownloadHeaders(res: Response, contentType: string, fileName: string) {
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res.setHeader("Cache-Control", "no-store");
 }
 
-function requireChatApiKey(req: Request, res: Response): boolean {
-  const apiKey = getChatApiKey(req);
+// Walks every matching conversation page by page, fetching each page's threads in parallel.
+async function* iterateConversationThreads(
+  tenantId: string,
+  filters: { status?: ConversationStatus; tag?: string; from: number; to: number }
+): AsyncGenerator<ConversationThread> {
+  let cursor: string | null = null;
 
-  if (!apiKey || !secureEquals(env.WIDGET_API_KEY, apiKey)) {
-    res.status(401).json({ error: "Unauthorized" });
-    return false;
-  }
+  do {
+    const result = (await convex.query(anyApi.conversations.listConversations, {
+      tenantId,
+      paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor },
+      ...filters
+    })) as ConversationPage;
+    const threads = await Promise.all(
+      result.page.map(
+        (conversation) =>
+          convex.query(anyApi.conversations.getConversationThread, {
+            tenantId,
+            conversationId: conversation._id
+          }) as Promise<ConversationThread | null>
+      )
+    );
 
-  return true;
+    for (const thread of threads) {
+      if (thread) {
+        yield thread;
+      }
+    }
+
+    cursor = result.isDone ? null : result.continueCursor;
+  } while (cursor);
 }
 
-function requireAdminApiKey(req: Request, res: Response): boolean {
-  if (!env.ADMIN_API_KEY) {
-    res.status(503).json({ error: "ADMIN_API_KEY is not configured on this deployment" });
-    return false;
-  }
+function startOfUtcDay(timestamp: number): number {
+  return timestamp - (timestamp % DAY_MS);
+}
 
-  const apiKey = req.header("x-admin-api-key") ?? "";
+// `req.ip` only reads `X-Forwarded-For` as far back as TRUST_PROXY_HOPS allows, so a client cannot
+// pick its own rate limit bucket by sending the header.
+function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
 
-  if (!secureEquals(env.ADMIN_API_KEY, apiKey)) {
-    res.status(401).json({ error: "Unauthorized" });
-    return false;
-  }
+function getIpRateLimitRule(req: Request): RateLimitRule {
+  return { dimension: "ip", key: getClientIp(req), limit: env.RATE_LIMIT_MAX_REQUESTS };
+}
 
-  return true;
+// Checked once the key and session are known; the raw key is hashed before it reaches the store.
+function getChatRateLimitRules(req: Request, tenantId: string, sessionId: string): RateLimitRule[] {
+  return [
+    {
+      dimension: "session",
+      key: `${tenantId}:${sessionId}`,
+      limit: env.RATE_LIMIT_SESSION_MAX_REQUESTS
+    },
+    {
+      dimension: "apiKey",
+      key: hashApiKey(getChatApiKey(req) ?? ""),
+      limit: env.RATE_LIMIT_API_KEY_MAX_REQUESTS
+    },
+    { dimension: "tenant", key: tenantId, limit: env.RATE_LIMIT_TENANT_MAX_REQUESTS }
+  ];
 }
 
-function parseChatRequest(req: Request, res: Response): { sessionId: string; message: string } | null {
-  const parsed = chatRequestSchema.safeParse(req.body);
+// Counts the request against `rules` and sets `RateLimit-*` headers for the tightest limit seen so
+// far on this response. Responds 429 with `Retry-After` and returns false when a limit is exceeded.
+async function enforceRateLimit(res: Response, rules: RateLimitRule[]): Promise<boolean> {
+  const result = await rateLimiter.check(rules);
 
-  if (!parsed.success) {
-    if (env.NODE_ENV === "development") {
-      res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
-      return null;
-    }
+  if (!result) {
+    return true;
+  }
 
-    res.status(400).json({ error: "Invalid request payload" });
-    return null;
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  const previous = res.locals.rateLimit as RateLimitResult | undefined;
+
+  if (!previous || !result.allowed || result.remaining <= previous.remaining) {
+    res.locals.rateLimit = result;
+    res.setHeader("RateLimit-Limit", String(result.limit));
+    res.setHeader("RateLimit-Remaining", String(result.remaining));
+    res.setHeader("RateLimit-Reset", String(resetSeconds));
   }
 
-  return parsed.data;
+  if (result.allowed) {
+    return true;
+  }
+
+  res.setHeader("Retry-After", String(resetSeconds));
+  res.status(429).json({ error: "Too many requests", retryAfter: resetSeconds });
+  return false;
 }
 
-async function prepareConversationData(sessionId: string, message: string): Promise<{
-  conversationId: string;
-  conversationIdRaw: unknown;
-  history: HistoryMessage[];
-}> {
-  const now = Date.now();
+function getChatApiKey(req: Request): string | null {
+  return req.header("x-api-key") ?? req.header("x-widget-api-key") ?? null;
+}
 
-  const conversationIdRaw = await convex.mutation(anyApi.conversations.getOrCreateConversation, {
-    sessionId,
-    now
-  });
+// Keys are matched by hash, so the lookup does not leak how much of a key was right.
+async function findTenantByApiKey(kind: ApiKeyKind, apiKey: string): Promise<Tenant | null> {
+  const keyHash = hashApiKey(apiKey);
+  const cacheKey = `${kind}:${keyHash}`;
+  const cached = tenantKeyCache.get(cacheKey);
 
-  await convex.mutation(anyApi.conversations.addMessage, {
-    conversationId: conversationIdRaw,
-    role: "user",
-    content: message,
-    createdAt: now
-  });
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tenant;
+  }
 
-  const history = (await convex.query(anyApi.conversations.getHistoryForModel, {
-    conversationId: conversationIdRaw,
-    limit: env.MAX_HISTORY_MESSAGES
-  })) as HistoryMessage[];
+  const tenant = (await convex.query(anyApi.tenants.getTenantByKeyHash, {
+    kind,
+    keyHash
+  })) as Tenant | null;
 
-  return {
-    conversationId: String(conversationIdRaw),
-    conversationIdRaw,
-    history
-  };
-}
+  if (tenant) {
+    tenantKeyCache.set(cacheKey, { tenant, expiresAt: Date.now() + TENANT_KEY_CACHE_TTL_MS });
+  } else {
+    tenantKeyCache.delete(cacheKey);
+  }
 
-async function generateAssistantMessage(
-  history: HistoryMessage[],
-  onToken?: (token: string) => void
-): Promise<string> {
-  const openAiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      model: env.OPENAI_MODEL,
-      stream: true,
-      messages: [
-        {
-          role: "system",
-          content: "You are a concise and helpful AI assistant embedded in a support chat widget."
-        },
-        ...history.map((item) => ({ role: item.role, content: item.content }))
-      ]
-    })
-  });
+  return tenant;
+}
 
-  if (!openAiResponse.ok || !openAiResponse.body) {
-    const details = await openAiResponse.text();
-    throw new Error(`OpenAI request failed (${openAiResponse.status}): ${details}`);
+function forgetTenantKeys(tenantId: string) {
+  for (const [cacheKey, entry] of tenantKeyCache) {
+    if (entry.tenant._id === tenantId) {
+      tenantKeyCache.delete(cacheKey);
+    }
   }
+}
 
-  const reader = openAiResponse.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-  let assistantMessage = "";
+function getRequestOrigin(req: Request): string | null {
+  return getUrlOrigin(req.header("origin")) ?? getUrlOrigin(req.header("referer"));
+}
 
-  const processEvent = (rawEvent: string) => {
-    for (const rawLine of rawEvent.split("\n")) {
-      const line = rawLine.trim();
+// Resolves the tenant that owns the widget key. Responds and returns `undefined` when the key is
+// missing or unknown, or when the key is locked to origins the request did not come from.
+async function resolveChatTenant(req: Request, res: Response): Promise<Tenant | undefined> {
+  const apiKey = getChatApiKey(req);
 
-      if (!line.startsWith("data:")) {
-        continue;
-      }
+  try {
+    const tenant = apiKey ? await findTenantByApiKey("widget", apiKey) : null;
 
-      const data = line.slice(5).trim();
+    if (!tenant) {
+      res.status(401).json({ error: "Unauthorized" });
+      return undefined;
+    }
 
-      if (data === "[DONE]") {
-        continue;
-      }
+    const allowedOrigins = tenantAllowedOrigins.get(tenant._id) ?? tenant.allowedOrigins;
 
-      let parsed: OpenAIChatCompletionChunk;
-      try {
-        parsed = JSON.parse(data) as OpenAIChatCompletionChunk;
-      } catch {
-        continue;
+    if (allowedOrigins.length > 0) {
+      const origin = getRequestOrigin(req);
+
+      // Requests without an Origin or Referer (curl, server-side code) cannot use a locked key.
+      if (!origin || !isOriginAllowed(allowedOrigins, origin)) {
+        res.status(403).json({ error: "Origin not allowed" });
+        return undefined;
       }
+    }
+
+    return tenant;
+  } catch (error) {
+    console.error("Error resolving tenant for widget API key", error);
+    res.status(500).json({ error: "Internal server error" });
+    return undefined;
+  }
+}
 
-      const token = parsed.choices?.[0]?.delta?.content;
+// Admin keys act on their own tenant. The platform admin may pick another one with `x-tenant-id`.
+async function resolveAdminTenant(req: Request, res: Response): Promise<AdminContext | undefined> {
+  const apiKey = req.header("x-admin-api-key");
+  const requestedTenantId = req.header("x-tenant-id");
 
-      if (!token) {
-        continue;
-      }
+  try {
+    const keyTenant = apiKey ? await findTenantByApiKey("admin", apiKey) : null;
 
-      assistantMessage += token;
-      onToken?.(token);
+    if (!keyTenant) {
+      res.status(401).json({ error: "Unauthorized" });
+      return undefined;
     }
-  };
 
-  while (true) {
-    const { done, value } = await reader.read();
+    const isPlatformAdmin = keyTenant.slug === DEFAULT_TENANT_SLUG;
 
-    if (done) {
-      break;
+    if (!requestedTenantId || requestedTenantId === keyTenant._id) {
+      return { tenant: keyTenant, isPlatformAdmin };
     }
 
-    buffer += decoder.decode(value, { stream: true });
-
-    while (true) {
-      const boundary = buffer.indexOf("\n\n");
+    if (!isPlatformAdmin) {
+      res.status(403).json({ error: "Forbidden" });
+      return undefined;
+    }
 
-      if (boundary === -1) {
-        break;
-      }
+    const tenant = (await convex.query(anyApi.tenants.getTenant, {
+      tenantId: requestedTenantId
+    })) as Tenant | null;
 
-      const rawEvent = buffer.slice(0, boundary);
-      buffer = buffer.slice(boundary + 2);
-      processEvent(rawEvent);
+    if (!tenant) {
+      res.status(404).json({ error: "Tenant not found" });
+      return undefined;
     }
-  }
 
-  if (buffer.trim()) {
-    processEvent(buffer);
+    return { tenant, isPlatformAdmin };
+  } catch (error) {
+    console.error("Error resolving tenant for admin API key", error);
+    res.status(500).json({ error: "Internal server error" });
+    return undefined;
   }
-
-  return assistantMessage.trim() || "I could not generate a response right now.";
 }
 
-async function persistAssistantMessage(conversationIdRaw: unknown, message: string): Promise<void> {
-  await convex.mutation(anyApi.conversations.addMessage, {
-    conversationId: conversationIdRaw,
-    role: "assistant",
-    content: message,
-    createdAt: Date.now()
+function watchTenantOrigins(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let ready = false;
+
+    convexRealtime.onUpdate(
+      anyApi.tenants.listAllowedOrigins,
+      {},
+      (rows: Array<{ tenantId: string; allowedOrigins: string[] }>) => {
+        tenantAllowedOrigins.clear();
+
+        for (const row of rows) {
+          tenantAllowedOrigins.set(row.tenantId, row.allowedOrigins);
+        }
+
+        ready = true;
+        resolve();
+      },
+      (error) => {
+        console.error("Error in allowed origins subscription", error);
+
+        if (!ready) {
+          reject(error);
+        }
+      }
+    );
   });
 }
 
-async function runChatCompletion(sessionId: string, message: string): Promise<{
-  conversationId: string;
-  finalMessage: string;
-}> {
-  const { conversationId, conversationIdRaw, history } = await prepareConversationData(sessionId, message);
+// Keeps the default tenant's keys in sync with WIDGET_API_KEY / ADMIN_API_KEY and assigns rows
+// created before tenants existed to it.
+async function bootstrapDefaultTenant(): Promise<Tenant> {
+  const tenant = (await convex.mutation(anyApi.tenants.ensureDefaultTenant, {
+    widgetKeyHash: hashApiKey(env.WIDGET_API_KEY),
+    widgetKeyPrefix: getApiKeyPrefix(env.WIDGET_API_KEY),
+    adminKeyHash: env.ADMIN_API_KEY ? hashApiKey(env.ADMIN_API_KEY) : undefined,
+    adminKeyPrefix: env.ADMIN_API_KEY ? getApiKeyPrefix(env.ADMIN_API_KEY) : undefined,
+    now: Date.now()
+  })) as Tenant;
 
-  const finalMessage = await generateAssistantMessage(history);
-  await persistAssistantMessage(conversationIdRaw, finalMessage);
+  let assigned = 0;
 
-  return { conversationId, finalMessage };
-}
+  for (;;) {
+    const batch = (await convex.mutation(anyApi.tenants.assignUntenantedRows, {
+      tenantId: tenant._id,
+      limit: TENANT_BACKFILL_BATCH_SIZE
+    })) as number;
 
-const corsOrigin: CorsOptions["origin"] = (origin, callback) => {
-  if (!origin) {
-    callback(null, true);
-    return;
+    if (batch === 0) {
+      break;
+    }
+
+    assigned += batch;
   }
 
-  if (allowAllOrigins || allowedOriginSet.has(origin)) {
-    callback(null, true);
-    return;
+  if (assigned > 0) {
+    console.log(`Assigned ${assigned} existing record(s) to the default tenant`);
   }
 
-  callback(new Error("Blocked by CORS policy"));
-};
+  return tenant;
+}
+
+function parseChatRequest(req: Request, res: Response): ChatRequest | null {
+  const parsed = chatRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    if (env.NODE_ENV === "development") {
+      res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+      return null;
+    }
+
+    res.status(400).json({ error: "Invalid request payload" });
+    return null;
+  }
+
+  return parsed.data;
+}
+
+async function loadAssistant(
+  tenantId: string,
+  assistantId: string
+): Promise<AssistantProfile | null> {
+  return (await convex.query(anyApi.assistants.getAssistant, {
+    tenantId,
+    assistantId
+  })) as AssistantProfile | null;
+}
+
+// Resolves the assistant profile a chat request asked for. Responds with 404 and returns
+// `undefined` when the ID does not match any assistant.
+async function resolveChatAssistant(
+  tenantId: string,
+  request: ChatRequest,
+  res: Response
+): Promise<AssistantProfile | null | undefined> {
+  if (!request.assistantId) {
+    return null;
+  }
+
+  const assistant = await loadAssistant(tenantId, request.assistantId);
+
+  if (!assistant) {
+    res.status(404).json({ error: "Assistant not found" });
+    return undefined;
+  }
+
+  return assistant;
+}
+
+// The `Idempotency-Key` header or the body's `clientMessageId`. Returns null when neither was sent
+// and undefined when the request was rejected.
+function resolveIdempotencyKey(
+  req: Request,
+  request: ChatRequest,
+  res: Response
+): string | null | undefined {
+  const header = req.header("idempotency-key");
+
+  if (header === undefined) {
+    return request.clientMessageId ?? null;
+  }
+
+  const parsed = idempotencyKeySchema.safeParse(header);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid Idempotency-Key" });
+    return undefined;
+  }
+
+  if (request.clientMessageId !== undefined && request.clientMessageId !== parsed.data) {
+    res.status(400).json({ error: "Idempotency-Key and clientMessageId differ" });
+    return undefined;
+  }
+
+  return parsed.data;
+}
+
+function sendIdempotencyConflict(res: Response) {
+  res.status(422).json({ error: "Idempotency key was already used with a different message" });
+}
+
+// Returns null for anonymous visitors and undefined when the request was rejected.
+function resolveEndUser(req: Request, res: Response): VerifiedUser | null | undefined {
+  const token = req.header("x-user-token");
+
+  if (!token) {
+    if (env.REQUIRE_USER_TOKEN) {
+      res.status(401).json({ error: "User token required" });
+      return undefined;
+    }
+
+    return null;
+  }
+
+  // A token with no secret to check it against is a misconfiguration; silently treating the caller
+  // as anonymous would hide it.
+  if (!env.USER_TOKEN_SECRET) {
+    res.status(401).json({ error: "User tokens are not enabled (USER_TOKEN_SECRET is not set)" });
+    return undefined;
+  }
+
+  const verification = verifyUserToken(token, env.USER_TOKEN_SECRET);
+
+  if (!verification.ok) {
+    res.status(401).json({ error: verification.error });
+    return undefined;
+  }
+
+  return verification.user;
+}
+
+function resolveSessionSecret(req: Request): string | null {
+  return req.header("x-session-secret") || null;
+}
+
+// Who is asking, in the form the Convex access checks compare against the conversation owner.
+function getSessionCaller(
+  user: VerifiedUser | null,
+  req: Request
+): { userId?: string; sessionSecretHash?: string } {
+  const sessionSecret = resolveSessionSecret(req);
+
+  return {
+    userId: user?.userId,
+    sessionSecretHash: sessionSecret ? hashSessionSecret(sessionSecret) : undefined
+  };
+}
+
+// A conversation started by a verified user is only reachable with that user's token, and an
+// anonymous conversation only with the secret it was created with. Creating a conversation checks
+// this again in the same transaction.
+async function authorizeSession(
+  tenantId: string,
+  sessionId: string,
+  user: VerifiedUser | null,
+  req: Request,
+  res: Response
+): Promise<boolean> {
+  const allowed = (await convex.query(anyApi.conversations.canAccessSession, {
+    tenantId,
+    sessionId,
+    ...getSessionCaller(user, req)
+  })) as boolean;
+
+  if (!allowed) {
+    res.status(403).json({ error: "Forbidden" });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Finds or creates the session's conversation. Anonymous callers without a secret get one issued,
+ * returned as `sessionSecret` when their request created the conversation. Throws
+ * SessionForbiddenError when the session belongs to someone else.
+ */
+async function openSessionConversation(
+  tenantId: string,
+  sessionId: string,
+  assistant: AssistantProfile | null,
+  user: VerifiedUser | null,
+  sessionSecret: string | null
+): Promise<{ conversationIdRaw: unknown; sessionSecret: string | null }> {
+  const issuedSecret = user || sessionSecret ? null : createSessionSecret();
+  const secret = sessionSecret ?? issuedSecret;
+  const session = (await convex.mutation(anyApi.conversations.getOrCreateConversation, {
+    tenantId,
+    sessionId,
+    assistantId: assistant?._id,
+    userId: user?.userId,
+    userEmail: user?.email,
+    userName: user?.name,
+    sessionSecretHash: secret ? hashSessionSecret(secret) : undefined,
+    now: Date.now()
+  })) as { conversationId: unknown; created: boolean } | null;
+
+  if (!session) {
+    throw new SessionForbiddenError("Forbidden");
+  }
+
+  return {
+    conversationIdRaw: session.conversationId,
+    sessionSecret: session.created ? issuedSecret : null
+  };
+}
+
+async function prepareConversationData(
+  tenantId: string,
+  sessionId: string,
+  message: string,
+  assistant: AssistantProfile | null,
+  user: VerifiedUser | null,
+  sessionSecret: string | null,
+  clientMessageId?: string
+): Promise<{
+  conversationId: string;
+  conversationIdRaw: unknown;
+  /** Secret issued for a new anonymous conversation, to be returned to the caller. */
+  sessionSecret: string | null;
+  userMessageId: string;
+  history: ConversationHistory;
+  status: ConversationStatus;
+  /** Reply already stored for `clientMessageId`; callers return it rather than generating again. */
+  storedReply: ConversationMessage | null;
+}> {
+  const now = Date.now();
+  const session = await openSessionConversation(
+    tenantId,
+    sessionId,
+    assistant,
+    user,
+    sessionSecret
+  );
+  const conversationIdRaw = session.conversationIdRaw;
+
+  const turn = clientMessageId
+    ? ((await convex.query(anyApi.conversations.getClientMessageTurn, {
+        tenantId,
+        conversationId: conversationIdRaw,
+        clientMessageId
+      })) as ClientMessageTurn | null)
+    : null;
+
+  if (turn?.message && turn.message.content !== message) {
+    throw new IdempotencyConflictError("Idempotency key was already used with a different message");
+  }
+
+  // A retried submission reuses the stored message instead of adding the turn again.
+  const userMessageId =
+    turn?.message?._id ??
+    (await convex.mutation(anyApi.conversations.addMessage, {
+      tenantId,
+      conversationId: conversationIdRaw,
+      role: "user",
+      content: message,
+      clientMessageId,
+      createdAt: now
+    }));
+
+  const [history, conversation] = await Promise.all([
+    convex.query(anyApi.conversations.getHistoryForModel, {
+      tenantId,
+      conversationId: conversationIdRaw
+    }) as Promise<ConversationHistory>,
+    convex.query(anyApi.conversations.getConversationById, {
+      tenantId,
+      conversationId: conversationIdRaw
+    }) as Promise<ConversationSummary | null>
+  ]);
+
+  let status = conversation?.status ?? "ai";
+
+  // A visitor writing into a closed thread reopens it with the AI.
+  if (status === "closed") {
+    await setConversationStatus(tenantId, conversationIdRaw, "ai");
+    status = "ai";
+  }
+
+  return {
+    conversationId: String(conversationIdRaw),
+    conversationIdRaw,
+    sessionSecret: session.sessionSecret,
+    userMessageId: String(userMessageId),
+    history,
+    status,
+    storedReply: turn?.reply ?? null
+  };
+}
+
+async function setConversationStatus(
+  tenantId: string,
+  conversationIdRaw: unknown,
+  status: ConversationStatus
+): Promise<ConversationStatus | null> {
+  return (await convex.mutation(anyApi.conversations.setConversationStatus, {
+    tenantId,
+    conversationId: conversationIdRaw,
+    status,
+    now: Date.now()
+  })) as ConversationStatus | null;
+}
+
+function isHandledByHuman(status: ConversationStatus): status is "pending_human" | "human" {
+  return status === "pending_human" || status === "human";
+}
+
+async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let index = 0; index < texts.length; index += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(index, index + EMBEDDING_BATCH_SIZE);
+    const batchEmbeddings = await embedder.embed(batch);
+
+    if (batchEmbeddings.length !== batch.length) {
+      throw new Error(
+        `Embedding provider returned ${batchEmbeddings.length} vectors for ${batch.length} inputs`
+      );
+    }
+
+    for (const embedding of batchEmbeddings) {
+      if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(
+          `Embedding model returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`
+        );
+      }
+    }
+
+    embeddings.push(...batchEmbeddings);
+  }
+
+  return embeddings;
+}
+
+// Retrieval failures never block a chat turn; the model simply answers without excerpts.
+async function retrieveKnowledge(tenantId: string, query: string): Promise<KnowledgeChunk[]> {
+  if (env.RAG_TOP_K === 0) {
+    return [];
+  }
+
+  try {
+    const [embedding] = await embedTexts([query]);
+    const chunks = (await convex.action(anyApi.knowledge.searchChunks, {
+      tenantId,
+      embedding,
+      limit: env.RAG_TOP_K
+    })) as KnowledgeChunk[];
+
+    return chunks.filter((chunk) => chunk.score >= env.RAG_MIN_SCORE);
+  } catch (error) {
+    console.error("Knowledge base retrieval failed", error);
+    return [];
+  }
+}
+
+async function ingestDocument(
+  tenantId: string,
+  input: z.infer<typeof createDocumentSchema>
+): Promise<{ documentId: string; chunkCount: number } | null> {
+  const text = extractDocumentText(input.content, input.format);
+  const chunks = chunkDocumentText(text, {
+    chunkSize: env.RAG_CHUNK_SIZE,
+    overlap: env.RAG_CHUNK_OVERLAP
+  });
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  // Embed everything before writing so a provider failure stores nothing.
+  const embeddings = await embedTexts(chunks);
+
+  const documentId = await convex.mutation(anyApi.knowledge.createDocument, {
+    tenantId,
+    title: input.title,
+    format: input.format,
+    sourceUrl: input.sourceUrl,
+    chunkCount: chunks.length,
+    now: Date.now()
+  });
+
+  // Chunks go in over several mutations; if one fails, remove the document and whatever chunks
+  // were written so it is not left searchable with parts missing.
+  try {
+    for (let index = 0; index < chunks.length; index += CHUNK_WRITE_BATCH_SIZE) {
+      await convex.mutation(anyApi.knowledge.addDocumentChunks, {
+        tenantId,
+        documentId,
+        chunks: chunks.slice(index, index + CHUNK_WRITE_BATCH_SIZE).map((content, offset) => ({
+          chunkIndex: index + offset,
+          content,
+          embedding: embeddings[index + offset]
+        }))
+      });
+    }
+  } catch (error) {
+    try {
+      await convex.mutation(anyApi.knowledge.deleteDocument, { tenantId, documentId });
+    } catch (deleteError) {
+      console.error(`Failed to remove partially indexed document ${documentId}`, deleteError);
+    }
+
+    throw error;
+  }
+
+  return { documentId: String(documentId), chunkCount: chunks.length };
+}
+
+type AssistantReply = {
+  text: string;
+  model: string;
+  /** Summed over every LLM round, including tool rounds; estimated where the provider sent none. */
+  usage: LlmUsage | null;
+  /** The request was aborted mid-answer; `text` is what had streamed so far (possibly empty). */
+  interrupted: boolean;
+};
+
+type GenerateAssistantMessageOptions = {
+  conversationIdRaw: unknown;
+  history: ConversationHistory;
+  assistant: AssistantProfile | null;
+  knowledge: KnowledgeChunk[];
+  toolContext: ToolContext;
+  onToken?: (token: string) => void;
+  onToolCall?: (call: LlmToolCall, label: string) => void;
+  onToolResult?: (call: LlmToolCall, ok: boolean) => void;
+  /** Aborted when the client goes away; no further LLM rounds or tools are started. */
+  signal?: AbortSignal;
+};
+
+function formatSummaryPrompt(summary: string): string {
+  return `Summary of the earlier conversation:\n${summary}`;
+}
+
+async function summarizeOverflow(
+  tenantId: string,
+  conversationIdRaw: unknown,
+  previousSummary: string | null,
+  overflow: ContextMessage[],
+  model: string
+): Promise<string> {
+  const summaryModel = env.SUMMARY_MODEL ?? model;
+  const messages = buildSummaryMessages(previousSummary, overflow, summaryModel);
+  const result = await llm.streamChat({
+    model: summaryModel,
+    temperature: 0,
+    messages
+  });
+  const summary = result.text.trim();
+
+  if (!summary) {
+    throw new Error("Summary model returned no text");
+  }
+
+  const usage = result.usage ?? estimateUsage(messages, result.text, summaryModel);
+
+  await convex.mutation(anyApi.conversations.updateConversationSummary, {
+    tenantId,
+    conversationId: conversationIdRaw,
+    summary,
+    summarizedThrough: overflow[overflow.length - 1].createdAt,
+    usage: {
+      model: summaryModel,
+      ...usage,
+      costUsd: calculateCostUsd(modelPrices, summaryModel, usage)
+    },
+    now: Date.now()
+  });
+
+  return summary;
+}
+
+/**
+ * Picks the turns that fit in HISTORY_MAX_TOKENS next to the stored summary. When older turns
+ * fall out, they are folded into the summary and the recent window is cut to half the budget,
+ * so the summary is rewritten every few turns rather than on every message.
+ */
+async function fitHistoryToContext(
+  tenantId: string,
+  conversationIdRaw: unknown,
+  history: ConversationHistory,
+  model: string
+): Promise<ConversationHistory> {
+  const summaryTokens = history.summary
+    ? estimateTokens(formatSummaryPrompt(history.summary), model)
+    : 0;
+  const maxTokens = Math.max(1, env.HISTORY_MAX_TOKENS - summaryTokens);
+  const selection = selectHistory(history.messages, {
+    maxTokens,
+    maxMessages: env.MAX_HISTORY_MESSAGES,
+    model
+  });
+
+  if (selection.overflow.length === 0) {
+    return { summary: history.summary, messages: selection.recent };
+  }
+
+  const compacted = selectHistory(history.messages, {
+    maxTokens: Math.max(1, Math.floor(maxTokens / 2)),
+    maxMessages: Math.ceil(env.MAX_HISTORY_MESSAGES / 2),
+    model
+  });
+
+  try {
+    const summary = await summarizeOverflow(
+      tenantId,
+      conversationIdRaw,
+      history.summary,
+      compacted.overflow,
+      model
+    );
+    return { summary, messages: compacted.recent };
+  } catch (error) {
+    // The reply still goes out with the previous summary; the next message retries.
+    console.error("Error summarizing conversation history", error);
+    return { summary: history.summary, messages: selection.recent };
+  }
+}
+
+// OpenAI-style streams only report usage in their last chunk, so a stopped round is estimated rather
+// than left out of usage and budgets.
+// Stands in when the provider sent no counts: the stream was cut before them, or the server
+// (e.g. an OpenAI-compatible one) does not report usage.
+function estimateUsage(messages: LlmMessage[], text: string, model: string): LlmUsage {
+  return {
+    promptTokens: messages.reduce(
+      (total, message) => total + estimateMessageTokens(message, model),
+      0
+    ),
+    completionTokens: estimateTokens(text, model)
+  };
+}
+
+async function generateAssistantMessage(
+  options: GenerateAssistantMessageOptions
+): Promise<AssistantReply> {
+  const { assistant, knowledge, toolContext } = options;
+  const model = assistant?.model ?? llmModel;
+  const history = await fitHistoryToContext(
+    toolContext.tenantId,
+    options.conversationIdRaw,
+    options.history,
+    model
+  );
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content: assistant?.systemPrompt ?? env.SYSTEM_PROMPT
+    },
+    ...(knowledge.length > 0
+      ? [{ role: "system" as const, content: buildKnowledgePrompt(knowledge) }]
+      : []),
+    ...(history.summary
+      ? [{ role: "system" as const, content: formatSummaryPrompt(history.summary) }]
+      : []),
+    ...history.messages.map((item) => ({ role: item.role, content: item.content }))
+  ];
+  const textParts: string[] = [];
+  let usage: LlmUsage | null = null;
+  let interrupted = false;
+
+  // Each round either answers or asks for tools; the final round is sent without tools so the
+  // model has to answer with what it has gathered.
+  for (let round = 0; round <= env.MAX_TOOL_ROUNDS; round += 1) {
+    if (options.signal?.aborted) {
+      interrupted = true;
+      break;
+    }
+
+    const allowTools = !toolRegistry.isEmpty() && round < env.MAX_TOOL_ROUNDS;
+    let result: LlmChatResult;
+
+    try {
+      result = await llm.streamChat({
+        model,
+        temperature: assistant?.temperature,
+        messages,
+        tools: allowTools ? toolRegistry.definitions() : undefined,
+        onToken: options.onToken,
+        signal: options.signal
+      });
+    } catch (error) {
+      // Aborted before the provider started streaming.
+      if (options.signal?.aborted) {
+        interrupted = true;
+        break;
+      }
+      throw error;
+    }
+
+    const { text, toolCalls } = result;
+    usage = addUsage(usage, result.usage ?? estimateUsage(messages, text, model));
+
+    if (text.trim()) {
+      textParts.push(text.trim());
+    }
+
+    if (result.interrupted) {
+      interrupted = true;
+      break;
+    }
+
+    if (!allowTools || toolCalls.length === 0) {
+      break;
+    }
+
+    messages.push({ role: "assistant", content: text, toolCalls });
+
+    for (const call of toolCalls) {
+      options.onToolCall?.(call, toolRegistry.statusText(call.name));
+      const result = await toolRegistry.execute(call, toolContext);
+      options.onToolResult?.(call, result.ok);
+      messages.push({ role: "tool", toolCallId: call.id, name: call.name, content: result.output });
+    }
+  }
+
+  return {
+    text:
+      textParts.join("\n\n") || (interrupted ? "" : "I could not generate a response right now."),
+    model,
+    usage,
+    interrupted
+  };
+}
+
+async function persistAssistantMessage(
+  tenantId: string,
+  conversationIdRaw: unknown,
+  reply: AssistantReply,
+  clientMessageId?: string
+): Promise<string> {
+  const messageId = await convex.mutation(anyApi.conversations.addMessage, {
+    tenantId,
+    conversationId: conversationIdRaw,
+    role: "assistant",
+    content: reply.text,
+    interrupted: reply.interrupted || undefined,
+    // Ties the reply to the visitor message, so a retry with the same key gets it back.
+    clientMessageId,
+    usage: reply.usage
+      ? {
+          model: reply.model,
+          ...reply.usage,
+          costUsd: calculateCostUsd(modelPrices, reply.model, reply.usage)
+        }
+      : undefined,
+    createdAt: Date.now()
+  });
+
+  return String(messageId);
+}
+
+// Budget checks fail open: an unavailable Convex query is logged rather than blocking chat.
+async function loadBudgetStatus(tenantId: string, sessionId: string): Promise<BudgetStatus | null> {
+  try {
+    const status = (await convex.query(anyApi.budgets.getBudgetStatus, {
+      tenantId,
+      sessionId,
+      now: Date.now()
+    })) as BudgetStatus | null;
+
+    // Session warnings would be logged per visitor, so only tenant-wide limits are reported.
+    for (const check of status?.checks ?? []) {
+      const key = `${tenantId}:${check.period}:${check.metric}:${check.resetAt}`;
+
+      if (
+        check.state === "warning" &&
+        check.period !== "session" &&
+        !loggedBudgetWarnings.has(key)
+      ) {
+        loggedBudgetWarnings.add(key);
+        console.warn(
+          `Tenant ${tenantId} passed the soft limit of its ${check.period} ${check.metric} budget (${check.used} of ${check.limit})`
+        );
+      }
+    }
+
+    return status;
+  } catch (error) {
+    console.error("Error checking budget; allowing request", error);
+    return null;
+  }
+}
+
+function sendBudgetExhausted(res: Response, conversationId: string, status: BudgetStatus) {
+  const exhausted = status.checks.filter((check) => check.state === "exhausted");
+  // The request can succeed again once every exhausted limit has reset; session limits never do.
+  const retryAt = exhausted.some((check) => check.resetAt === null)
+    ? null
+    : Math.max(...exhausted.map((check) => check.resetAt ?? 0));
+
+  if (retryAt) {
+    res.setHeader("Retry-After", String(Math.max(0, Math.ceil((retryAt - Date.now()) / 1000))));
+  }
+
+  res.status(503).json({
+    error: "Assistant unavailable",
+    code: "budget_exhausted",
+    conversationId,
+    limits: exhausted.map(({ period, metric }) => ({ period, metric })),
+    retryAt
+  });
+}
+
+async function runChatCompletion(
+  tenantId: string,
+  sessionId: string,
+  message: string,
+  assistant: AssistantProfile | null,
+  user: VerifiedUser | null,
+  sessionSecret: string | null,
+  clientMessageId?: string
+): Promise<{
+  conversationId: string;
+  /** Issued when this request created an anonymous conversation. */
+  sessionSecret: string | null;
+  finalMessage: string | null;
+  /** ID of the stored assistant reply, used to rate it. */
+  messageId: string | null;
+  sources: ChatSource[];
+  status: ConversationStatus;
+  /** Set when a budget stopped the AI from answering; the user message is still stored. */
+  exhaustedBudget?: BudgetStatus;
+}> {
+  const [
+    {
+      conversationId,
+      conversationIdRaw,
+      sessionSecret: issuedSecret,
+      history,
+      status,
+      storedReply
+    },
+    knowledge,
+    budget
+  ] = await Promise.all([
+    prepareConversationData(
+      tenantId,
+      sessionId,
+      message,
+      assistant,
+      user,
+      sessionSecret,
+      clientMessageId
+    ),
+    retrieveKnowledge(tenantId, message),
+    loadBudgetStatus(tenantId, sessionId)
+  ]);
+
+  // Sources are not stored with a reply, so a replayed one comes back without them.
+  if (storedReply) {
+    return {
+      conversationId,
+      sessionSecret: issuedSecret,
+      finalMessage: storedReply.content,
+      messageId: storedReply._id,
+      sources: [],
+      status
+    };
+  }
+
+  if (isHandledByHuman(status)) {
+    return {
+      conversationId,
+      sessionSecret: issuedSecret,
+      finalMessage: null,
+      messageId: null,
+      sources: [],
+      status
+    };
+  }
+
+  if (budget?.state === "exhausted") {
+    return {
+      conversationId,
+      sessionSecret: issuedSecret,
+      finalMessage: null,
+      messageId: null,
+      sources: [],
+      status,
+      exhaustedBudget: budget
+    };
+  }
+
+  const reply = await generateAssistantMessage({
+    conversationIdRaw,
+    history,
+    assistant,
+    knowledge,
+    toolContext: { tenantId, conversationId, sessionId, user: user ?? undefined }
+  });
+  const messageId = await persistAssistantMessage(
+    tenantId,
+    conversationIdRaw,
+    reply,
+    clientMessageId
+  );
+
+  return {
+    conversationId,
+    sessionSecret: issuedSecret,
+    finalMessage: reply.text,
+    messageId,
+    sources: toChatSources(knowledge),
+    status
+  };
+}
+
+const corsOrigin: CorsOptions["origin"] = (origin, callback) => {
+  if (!origin) {
+    callback(null, true);
+    return;
+  }
+
+  if (allowAllOrigins || allowedOriginSet.has(origin)) {
+    callback(null, true);
+    return;
+  }
+
+  // Sites a tenant locked its widget key to are allowed without editing CORS_ORIGIN.
+  const normalizedOrigin = origin.toLowerCase();
+
+  for (const allowedOrigins of tenantAllowedOrigins.values()) {
+    if (isOriginAllowed(allowedOrigins, normalizedOrigin)) {
+      callback(null, true);
+      return;
+    }
+  }
+
+  callback(new Error("Blocked by CORS policy"));
+};
+
+app.disable("x-powered-by");
+app.set("trust proxy", env.TRUST_PROXY_HOPS);
+
+app.use(
+  cors({
+    origin: corsOrigin,
+    methods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+    allowedHeaders: [
+      "Content-Type",
+      "x-api-key",
+      "x-widget-api-key",
+      "x-admin-api-key",
+      "x-tenant-id",
+      "x-user-token",
+      "x-session-secret",
+      "Idempotency-Key",
+      "Last-Event-ID"
+    ],
+    // Lets the widget read when to retry after a 429.
+    exposedHeaders: ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "Retry-After"]
+  })
+);
+
+app.use((_req, res, next) => {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("X-Frame-Options", "DENY");
+  res.setHeader("Referrer-Policy", "no-referrer");
+  res.setHeader("Permissions-Policy", "camera=(), microphone=(), geolocation=()");
+  if (env.NODE_ENV === "production") {
+    res.setHeader("Strict-Transport-Security", "max-age=31536000; includeSubDomains");
+  }
+  next();
+});
+
+app.use(express.json({ limit: "2mb" }));
+
+app.get("/health", (_req, res) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json({ status: "ok" });
+});
+
+app.get("/v1/openapi.json", (req, res) => {
+  const baseUrl = `${req.protocol}://${req.get("host")}`;
+
+  res.status(200).json({
+    openapi: "3.1.0",
+    info: {
+      title: "Open Chat Widget API",
+      version: "1.0.0",
+      description: "Headless chat and conversation APIs for custom frontends."
+    },
+    servers: [{ url: baseUrl }],
+    paths: {
+      "/health": {
+        get: {
+          summary: "Health check",
+          responses: {
+            "200": {
+              description: "Service is healthy"
+            }
+          }
+        }
+      },
+      "/v1/chat": {
+        post: {
+          summary: "Non-streaming chat response",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              required: false,
+              description:
+                "Repeats with the same key get the first request's reply (or send clientMessageId)",
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Assistant response"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            },
+            "422": {
+              description: "Idempotency-Key was already used with a different message"
+            },
+            "429": {
+              description: "Rate limit exceeded; retry after the Retry-After header (seconds)"
+            },
+            "503": {
+              description:
+                "Assistant unavailable: a budget is exhausted (code budget_exhausted, retryAt)"
+            }
+          }
+        }
+      },
+      "/v1/chat/stream": {
+        post: {
+          summary: "Streaming chat response (NDJSON)",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              required: false,
+              description:
+                "Repeats with the same key get the first request's reply (or send clientMessageId)",
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "NDJSON stream events"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            },
+            "422": {
+              description: "Idempotency-Key was already used with a different message"
+            },
+            "429": {
+              description: "Rate limit exceeded; retry after the Retry-After header (seconds)"
+            },
+            "503": {
+              description:
+                "Assistant unavailable: a budget is exhausted (code budget_exhausted, retryAt)"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}": {
+        delete: {
+          summary: "Delete the visitor's conversation and all of its messages",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Deleted, or there was nothing stored for the session"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            },
+            "429": {
+              description: "Rate limit exceeded; retry after the Retry-After header (seconds)"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}/handoff": {
+        post: {
+          summary: "Ask for a human agent to take over the conversation",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Conversation status after the request"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            },
+            "429": {
+              description: "Rate limit exceeded; retry after the Retry-After header (seconds)"
+            }
+          }
+        }
+      },
+      "/v1/messages/{messageId}/feedback": {
+        post: {
+          summary: "Rate an assistant reply up or down, with an optional comment",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "messageId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Stored rating; rating the same message again replaces it"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            },
+            "404": {
+              description: "No assistant message with this ID in the session"
+            },
+            "429": {
+              description: "Rate limit exceeded; retry after the Retry-After header (seconds)"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}/messages": {
+        get: {
+          summary:
+            "Conversation history, paged backwards with cursor/limit or only messages after a timestamp",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "after",
+              in: "query",
+              required: false,
+              schema: { type: "integer" }
+            },
+            {
+              name: "cursor",
+              in: "query",
+              required: false,
+              description: "The cursor returned with the previous (newer) page",
+              schema: { type: "string" }
+            },
+            {
+              name: "limit",
+              in: "query",
+              required: false,
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 30 }
+            }
+          ],
+          responses: {
+            "200": {
+              description:
+                "Conversation status and messages (oldest first) with hasMore and cursor when paging"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}/events": {
+        get: {
+          summary: "Live conversation events (Server-Sent Events): new messages and status changes",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "after",
+              in: "query",
+              required: false,
+              schema: { type: "integer" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "text/event-stream of ready, message and status events"
+            },
+            "429": {
+              description: "Rate limit exceeded, or too many open event streams for the session"
+            },
+            "401": {
+              description: "Invalid, expired or missing (when required) user token"
+            },
+            "403": {
+              description:
+                "Wrong user or session secret for the conversation, or origin not allowed for the key"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}/streams/{streamId}": {
+        get: {
+          summary: "Resume a chat stream after a dropped connection, from the event after `after`",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "streamId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "after",
+              in: "query",
+              required: false,
+              description: "`seq` of the last event received; the Last-Event-ID header also works",
+              schema: { type: "integer" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "NDJSON stream events"
+            },
+            "404": {
+              description: "Stream not found or expired"
+            }
+          }
+        }
+      },
+      "/v1/conversations/{sessionId}/streams/{streamId}/cancel": {
+        post: {
+          summary: "Stop generating a streamed reply and save what was generated so far",
+          security: [
+            { ApiKeyAuth: [], UserTokenAuth: [] },
+            { ApiKeyAuth: [], SessionSecretAuth: [] },
+            { ApiKeyAuth: [] }
+          ],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "streamId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "202": {
+              description: "Cancelling; the stream ends with an interrupted done event"
+            },
+            "404": {
+              description: "Stream not found or expired"
+            }
+          }
+        }
+      },
+      "/v1/assistants/{assistantId}": {
+        get: {
+          summary: "Get the public profile (name, welcome message) of an assistant",
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "assistantId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Assistant profile"
+            },
+            "404": {
+              description: "Assistant not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/assistants": {
+        get: {
+          summary: "List assistants",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Assistant list"
+            }
+          }
+        },
+        post: {
+          summary: "Create an assistant",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "201": {
+              description: "Created assistant"
+            }
+          }
+        }
+      },
+      "/v1/admin/assistants/{assistantId}": {
+        get: {
+          summary: "Get an assistant",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "assistantId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Assistant"
+            },
+            "404": {
+              description: "Assistant not found"
+            }
+          }
+        },
+        patch: {
+          summary: "Update an assistant",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "assistantId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Updated assistant"
+            },
+            "404": {
+              description: "Assistant not found"
+            }
+          }
+        },
+        delete: {
+          summary: "Delete an assistant",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "assistantId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Assistant deleted"
+            },
+            "404": {
+              description: "Assistant not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/documents": {
+        get: {
+          summary: "List knowledge base documents",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Document list"
+            }
+          }
+        },
+        post: {
+          summary: "Upload a markdown, HTML or plain-text document to the knowledge base",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "201": {
+              description: "Document chunked, embedded and stored"
+            },
+            "400": {
+              description: "Invalid payload or document without text"
+            }
+          }
+        }
+      },
+      "/v1/admin/documents/{documentId}": {
+        delete: {
+          summary: "Delete a knowledge base document and its chunks",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "documentId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Document deleted"
+            },
+            "404": {
+              description: "Document not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations": {
+        get: {
+          summary: "List conversations, newest activity first, one page per call",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "limit",
+              in: "query",
+              required: false,
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 50 }
+            },
+            {
+              name: "cursor",
+              in: "query",
+              required: false,
+              description: "nextCursor from the previous page, with the same filters",
+              schema: { type: "string" }
+            },
+            {
+              name: "status",
+              in: "query",
+              required: false,
+              schema: { type: "string", enum: ["ai", "pending_human", "human", "closed"] }
+            },
+            {
+              name: "tag",
+              in: "query",
+              required: false,
+              schema: { type: "string" }
+            },
+            {
+              name: "feedback",
+              in: "query",
+              required: false,
+              description: "negative: only conversations with a thumbs down on a reply",
+              schema: { type: "string", enum: ["negative"] }
+            },
+            {
+              name: "from",
+              in: "query",
+              required: false,
+              description: "First UTC day of last activity (YYYY-MM-DD)",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "to",
+              in: "query",
+              required: false,
+              description: "Last UTC day of last activity (YYYY-MM-DD)",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "q",
+              in: "query",
+              required: false,
+              description: "Full-text search over message content; results are ranked by relevance",
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Conversation page with nextCursor (null on the last page)"
+            },
+            "400": {
+              description: "Invalid filters or cursor"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations/export": {
+        get: {
+          summary: "Download every conversation active in a date range as NDJSON or a zip",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "format",
+              in: "query",
+              required: false,
+              schema: { type: "string", enum: ["ndjson", "zip"], default: "ndjson" }
+            },
+            {
+              name: "fileFormat",
+              in: "query",
+              required: false,
+              description: "Format of each file in a zip",
+              schema: { type: "string", enum: [...EXPORT_FORMATS], default: "json" }
+            },
+            {
+              name: "from",
+              in: "query",
+              required: false,
+              description: "First UTC day of last activity (YYYY-MM-DD); defaults to 30 days ago",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "to",
+              in: "query",
+              required: false,
+              description: "Last UTC day of last activity (YYYY-MM-DD); defaults to today",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "status",
+              in: "query",
+              required: false,
+              schema: { type: "string", enum: ["ai", "pending_human", "human", "closed"] }
+            },
+            {
+              name: "tag",
+              in: "query",
+              required: false,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Streamed attachment, one JSON conversation per line or one file each"
+            },
+            "400": {
+              description: "Invalid query parameters"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations/{conversationId}": {
+        get: {
+          summary: "Get conversation thread",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Conversation with messages"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        },
+        patch: {
+          summary: "Set the conversation status (ai, pending_human, human or closed) or tags",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Updated status and tags"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        },
+        delete: {
+          summary: "Erase the conversation with its messages and usage events",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Conversation erased"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/sessions/{sessionId}": {
+        delete: {
+          summary: "Erase the conversation of a widget session",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "sessionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Conversation erased"
+            },
+            "404": {
+              description: "No conversation for this session"
+            }
+          }
+        }
+      },
+      "/v1/admin/users/{userId}": {
+        delete: {
+          summary: "Erase every conversation of a verified user",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "userId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description:
+                "Number of conversations erased, and whether more are being erased in the background"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations/{conversationId}/export": {
+        get: {
+          summary: "Download a conversation as JSON, CSV, plain text or Markdown",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "format",
+              in: "query",
+              required: false,
+              schema: { type: "string", enum: [...EXPORT_FORMATS], default: "json" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Transcript attachment"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations/{conversationId}/messages": {
+        post: {
+          summary: "Reply as a human agent; takes the conversation over from the AI",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "201": {
+              description: "Agent message stored"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/usage": {
+        get: {
+          summary: "Token usage and cost by day, model and conversation",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "from",
+              in: "query",
+              required: false,
+              description: "First UTC day (YYYY-MM-DD); defaults to 30 days before `to`",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "to",
+              in: "query",
+              required: false,
+              description: "Last UTC day, inclusive (YYYY-MM-DD); defaults to today",
+              schema: { type: "string", format: "date" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Totals plus byDay, byModel and byConversation breakdowns"
+            },
+            "400": {
+              description: "Invalid date range"
+            }
+          }
+        }
+      },
+      "/v1/admin/conversations/{conversationId}/usage": {
+        get: {
+          summary: "Token usage and cost totals for one conversation",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "conversationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Usage totals"
+            },
+            "404": {
+              description: "Conversation not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/feedback": {
+        get: {
+          summary:
+            "Thumbs up and down on assistant replies, satisfaction rate and recent complaints",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "from",
+              in: "query",
+              required: false,
+              description: "First UTC day (YYYY-MM-DD); defaults to 30 days before `to`",
+              schema: { type: "string", format: "date" }
+            },
+            {
+              name: "to",
+              in: "query",
+              required: false,
+              description: "Last UTC day, inclusive (YYYY-MM-DD); defaults to today",
+              schema: { type: "string", format: "date" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Totals, byDay and the latest thumbs down (recentNegative)"
+            },
+            "400": {
+              description: "Invalid date range"
+            }
+          }
+        }
+      },
+      "/v1/admin/budget": {
+        get: {
+          summary: "Budget limits and current spend against them",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Budget and its status (ok, warning or exhausted) per limit"
+            }
+          }
+        },
+        patch: {
+          summary: "Set or clear (null) daily, monthly and per-session token or USD limits",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Updated budget"
+            },
+            "400": {
+              description: "Invalid request payload"
+            }
+          }
+        }
+      },
+      "/v1/admin/retention": {
+        get: {
+          summary: "How many idle days conversations are kept before they are purged",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description:
+                "Tenant setting, deployment default and the value in effect (null keeps forever)"
+            }
+          }
+        },
+        patch: {
+          summary: "Set the retention window in days, or null to use the deployment default",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Updated retention"
+            },
+            "400": {
+              description: "Invalid request payload"
+            }
+          }
+        }
+      },
+      "/v1/admin/webhooks": {
+        get: {
+          summary: "List webhook endpoints (secrets are never listed)",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Webhooks"
+            }
+          }
+        },
+        post: {
+          summary: "Add a webhook endpoint; the response includes its signing secret, shown once",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "201": {
+              description: "Created webhook with its signing secret"
+            },
+            "400": {
+              description: "Invalid request payload"
+            }
+          }
+        }
+      },
+      "/v1/admin/webhooks/{webhookId}": {
+        patch: {
+          summary: "Change a webhook's URL, events or description, or enable or disable it",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "webhookId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Updated webhook"
+            },
+            "400": {
+              description: "Invalid request payload"
+            },
+            "404": {
+              description: "Webhook not found"
+            }
+          }
+        },
+        delete: {
+          summary: "Remove a webhook; deliveries still pending are dropped",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "webhookId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "204": {
+              description: "Webhook removed"
+            },
+            "404": {
+              description: "Webhook not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/webhooks/{webhookId}/deliveries": {
+        get: {
+          summary: "Recent deliveries of a webhook, newest first (kept for 30 days)",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "webhookId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "limit",
+              in: "query",
+              required: false,
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 50 }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Deliveries with status, attempts and the last response or error"
+            },
+            "404": {
+              description: "Webhook not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/webhooks/{webhookId}/deliveries/{deliveryId}/retry": {
+        post: {
+          summary: "Send a failed delivery again",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "webhookId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "deliveryId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "202": {
+              description: "Delivery queued"
+            },
+            "404": {
+              description: "Delivery not found"
+            }
+          }
+        }
+      },
+      "/v1/admin/allowed-origins": {
+        get: {
+          summary: "List the origins the tenant's widget key is locked to (empty means any origin)",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Allowed origins"
+            }
+          }
+        },
+        post: {
+          summary: "Allow an origin (e.g. https://example.com or https://*.example.com)",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Updated allowed origins"
+            },
+            "400": {
+              description: "Invalid origin"
+            }
+          }
+        },
+        delete: {
+          summary: "Remove an allowed origin",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "origin",
+              in: "query",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "Updated allowed origins"
+            },
+            "400": {
+              description: "Invalid origin"
+            }
+          }
+        }
+      },
+      "/v1/admin/tenants": {
+        get: {
+          summary: "List tenants (platform admin only)",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "200": {
+              description: "Tenants without their key hashes"
+            },
+            "403": {
+              description: "Admin key does not belong to the default tenant"
+            }
+          }
+        },
+        post: {
+          summary: "Create a tenant; returns its widget and admin API keys once",
+          security: [{ AdminApiKeyAuth: [] }],
+          responses: {
+            "201": {
+              description: "Tenant with its new API keys"
+            },
+            "409": {
+              description: "Tenant slug already exists"
+            }
+          }
+        }
+      },
+      "/v1/admin/tenants/{tenantId}/rotate-key": {
+        post: {
+          summary: "Replace a tenant's widget or admin API key",
+          security: [{ AdminApiKeyAuth: [] }],
+          parameters: [
+            {
+              name: "tenantId",
+              in: "path",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": {
+              description: "The new API key"
+            },
+            "404": {
+              description: "Tenant not found"
+            }
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "x-api-key"
+        },
+        AdminApiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "x-admin-api-key"
+        },
+        UserTokenAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "x-user-token",
+          description: "HS256 JWT signed with USER_TOKEN_SECRET identifying the end user"
+        },
+        SessionSecretAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "x-session-secret",
+          description:
+            "Secret of an anonymous session: the client's own, or the sessionSecret issued at creation"
+        }
+      }
+    }
+  });
+});
+
+app.get("/widget/chat-widget.js", (_req, res) => {
+  if (!existsSync(widgetBundlePath)) {
+    res.status(404).json({
+      error: "Widget bundle not found. Build the widget with `npm run build --workspace widget`."
+    });
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/javascript; charset=utf-8");
+  res.setHeader(
+    "Cache-Control",
+    env.NODE_ENV === "production" ? "public, max-age=300, immutable" : "no-store"
+  );
+  res.sendFile(widgetBundlePath);
+});
+
+app.post("/v1/chat", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsed = parseChatRequest(req, res);
+
+  if (!parsed) {
+    return;
+  }
+
+  if (!(await enforceRateLimit(res, getChatRateLimitRules(req, tenant._id, parsed.sessionId)))) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  const sessionSecret = resolveSessionSecret(req);
+  const idempotencyKey = resolveIdempotencyKey(req, parsed, res);
+
+  if (idempotencyKey === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsed.sessionId, user, req, res))) {
+      return;
+    }
+
+    const assistant = await resolveChatAssistant(tenant._id, parsed, res);
+
+    if (assistant === undefined) {
+      return;
+    }
+
+    const complete = () =>
+      runChatCompletion(
+        tenant._id,
+        parsed.sessionId,
+        parsed.message,
+        assistant,
+        user,
+        sessionSecret,
+        idempotencyKey ?? undefined
+      );
+    // A repeated key gets the first request's reply instead of storing the message again.
+    const completion = idempotencyKey
+      ? chatCompletions.run(
+          `${tenant._id}:${parsed.sessionId}:${idempotencyKey}`,
+          parsed.message,
+          complete
+        )
+      : complete();
+
+    if (!completion) {
+      sendIdempotencyConflict(res);
+      return;
+    }
+
+    const result = await completion;
+
+    if (result.exhaustedBudget) {
+      sendBudgetExhausted(res, result.conversationId, result.exhaustedBudget);
+      return;
+    }
+
+    res.status(200).json({
+      conversationId: result.conversationId,
+      ...(result.sessionSecret ? { sessionSecret: result.sessionSecret } : {}),
+      message: result.finalMessage,
+      messageId: result.messageId,
+      sources: result.sources,
+      status: result.status
+    });
+  } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      sendIdempotencyConflict(res);
+      return;
+    }
+
+    if (error instanceof SessionForbiddenError) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+
+    console.error("Error handling /v1/chat request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Stores the visitor's message and starts the reply in the background. The reply is written to a
+// registered stream rather than to a response, so it outlives the connection that asked for it.
+async function startChatStream(
+  tenantId: string,
+  request: ChatRequest,
+  assistant: AssistantProfile | null,
+  user: VerifiedUser | null,
+  sessionSecret: string | null,
+  clientMessageId?: string
+): Promise<ChatStreamStart> {
+  const [
+    {
+      conversationId,
+      conversationIdRaw,
+      sessionSecret: issuedSecret,
+      userMessageId,
+      history,
+      status,
+      storedReply
+    },
+    knowledge,
+    budget
+  ] = await Promise.all([
+    prepareConversationData(
+      tenantId,
+      request.sessionId,
+      request.message,
+      assistant,
+      user,
+      sessionSecret,
+      clientMessageId
+    ),
+    retrieveKnowledge(tenantId, request.message),
+    loadBudgetStatus(tenantId, request.sessionId)
+  ]);
+
+  // The reply to a retried submission was stored earlier (possibly by another instance); the
+  // stream carries just that reply.
+  if (storedReply) {
+    const stream = chatStreams.create(tenantId, request.sessionId);
+    stream.push({
+      type: "start",
+      conversationId,
+      userMessageId,
+      streamId: stream.id,
+      sessionSecret: issuedSecret ?? undefined
+    });
+    stream.push({
+      type: "done",
+      message: storedReply.content,
+      conversationId,
+      messageId: storedReply._id,
+      interrupted: storedReply.interrupted
+    });
+    stream.finish();
+    return { conversationId, stream, completed: Promise.resolve(true) };
+  }
+
+  // Human agents can still answer; only the AI reply is blocked.
+  if (budget?.state === "exhausted" && !isHandledByHuman(status)) {
+    return { conversationId, exhaustedBudget: budget };
+  }
+
+  const stream = chatStreams.create(tenantId, request.sessionId);
+  stream.push({
+    type: "start",
+    conversationId,
+    userMessageId,
+    streamId: stream.id,
+    sessionSecret: issuedSecret ?? undefined
+  });
+
+  // The message is stored for the human agent; the LLM is not called.
+  if (isHandledByHuman(status)) {
+    stream.push({ type: "handoff", status });
+    stream.push({ type: "done", message: "", conversationId });
+    stream.finish();
+    return { conversationId, stream, completed: Promise.resolve(true) };
+  }
+
+  if (knowledge.length > 0) {
+    stream.push({ type: "sources", sources: toChatSources(knowledge) });
+  }
+
+  const completed = (async () => {
+    try {
+      const reply = await generateAssistantMessage({
+        conversationIdRaw,
+        history,
+        assistant,
+        knowledge,
+        signal: stream.signal,
+        toolContext: {
+          tenantId,
+          conversationId,
+          sessionId: request.sessionId,
+          user: user ?? undefined
+        },
+        onToken: (token) => {
+          stream.push({ type: "token", token });
+        },
+        onToolCall: (call, label) => {
+          stream.push({ type: "tool_call", id: call.id, name: call.name, label });
+        },
+        onToolResult: (call, ok) => {
+          stream.push({ type: "tool_result", id: call.id, name: call.name, ok });
+        }
+      });
+
+      // A reply stopped before its first token leaves nothing worth keeping.
+      const messageId =
+        reply.interrupted && !reply.text
+          ? undefined
+          : await persistAssistantMessage(tenantId, conversationIdRaw, reply, clientMessageId);
+
+      stream.push({
+        type: "done",
+        message: reply.text,
+        conversationId,
+        messageId,
+        interrupted: reply.interrupted || undefined
+      });
+
+      return messageId !== undefined;
+    } catch (error) {
+      console.error("Error generating streamed chat reply", error);
+      stream.push({ type: "error", error: "Internal server error" });
+      return false;
+    } finally {
+      stream.finish();
+    }
+  })();
+
+  return { conversationId, stream, completed };
+}
+
+// Sends the stream's events after `after` and then follows it until it finishes.
+function pipeChatStream(stream: ChatStream<ChatStreamPayload>, after: number, res: Response) {
+  res.status(200);
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const detach = stream.attach(after, {
+    write: (event) => {
+      if (!res.writableEnded) {
+        writeStreamLine(res, event);
+      }
+    },
+    end: () => {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  });
+
+  // `res` (not `req`) is watched because the body parser has already read the request to the
+  // end; a close before `end()` means the client went away.
+  if (res.destroyed) {
+    detach();
+    return;
+  }
+
+  res.on("close", detach);
+}
+
+async function handleStreamingChat(req: Request, res: Response): Promise<void> {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsed = parseChatRequest(req, res);
+
+  if (!parsed) {
+    return;
+  }
+
+  if (!(await enforceRateLimit(res, getChatRateLimitRules(req, tenant._id, parsed.sessionId)))) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  const sessionSecret = resolveSessionSecret(req);
+  const idempotencyKey = resolveIdempotencyKey(req, parsed, res);
+
+  if (idempotencyKey === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsed.sessionId, user, req, res))) {
+      return;
+    }
+
+    const assistant = await resolveChatAssistant(tenant._id, parsed, res);
+
+    if (assistant === undefined) {
+      return;
+    }
+
+    // A repeated key attaches to the first request's stream and replays it from the start.
+    const starting = idempotencyKey
+      ? chatStreamStarts.run(
+          `${tenant._id}:${parsed.sessionId}:${idempotencyKey}`,
+          parsed.message,
+          () => startChatStream(tenant._id, parsed, assistant, user, sessionSecret, idempotencyKey)
+        )
+      : startChatStream(tenant._id, parsed, assistant, user, sessionSecret);
+
+    if (!starting) {
+      sendIdempotencyConflict(res);
+      return;
+    }
+
+    const started = await starting;
+
+    if ("exhaustedBudget" in started) {
+      sendBudgetExhausted(res, started.conversationId, started.exhaustedBudget);
+      return;
+    }
+
+    pipeChatStream(started.stream, 0, res);
+  } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      sendIdempotencyConflict(res);
+      return;
+    }
+
+    if (error instanceof SessionForbiddenError) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+
+    console.error("Error handling streaming chat request", error);
+
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+}
+
+app.post("/v1/chat/stream", async (req, res) => {
+  await handleStreamingChat(req, res);
+});
+
+app.post("/chat", async (req, res) => {
+  await handleStreamingChat(req, res);
+});
+
+// Reattaches to a reply after a dropped connection. `Last-Event-ID` is accepted in place of
+// `after`, as sent by EventSource-style clients.
+app.get("/v1/conversations/:sessionId/streams/:streamId", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = chatStreamParamsSchema.safeParse(req.params);
+  const parsedQuery = chatStreamResumeQuerySchema.safeParse({
+    after: req.query.after ?? req.header("last-event-id")
+  });
+
+  if (!parsedParams.success || !parsedQuery.success) {
+    res.status(400).json({ error: "Invalid request" });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(
+      res,
+      getChatRateLimitRules(req, tenant._id, parsedParams.data.sessionId)
+    ))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+  } catch (error) {
+    console.error("Error handling /v1/conversations/:sessionId/streams/:streamId request", error);
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+
+  const stream = chatStreams.get(
+    tenant._id,
+    parsedParams.data.sessionId,
+    parsedParams.data.streamId
+  );
+
+  if (!stream) {
+    res.status(404).json({ error: "Stream not found" });
+    return;
+  }
+
+  pipeChatStream(stream, parsedQuery.data.after, res);
+});
+
+// Stops generation; the stream then ends with a `done` event carrying the saved partial reply.
+app.post("/v1/conversations/:sessionId/streams/:streamId/cancel", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = chatStreamParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid request" });
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+  } catch (error) {
+    console.error(
+      "Error handling /v1/conversations/:sessionId/streams/:streamId/cancel request",
+      error
+    );
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+
+  const stream = chatStreams.get(
+    tenant._id,
+    parsedParams.data.sessionId,
+    parsedParams.data.streamId
+  );
+
+  if (!stream) {
+    res.status(404).json({ error: "Stream not found" });
+    return;
+  }
+
+  stream.cancel();
+  res.status(202).json({ streamId: stream.id });
+});
+
+app.delete("/v1/conversations/:sessionId", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = sessionIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(
+      res,
+      getChatRateLimitRules(req, tenant._id, parsedParams.data.sessionId)
+    ))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+
+    // Nothing stored yet is still a success: the visitor's data is gone either way.
+    await convex.mutation(anyApi.retention.eraseSession, {
+      tenantId: tenant._id,
+      sessionId: parsedParams.data.sessionId
+    });
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/conversations/:sessionId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/conversations/:sessionId/handoff", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = sessionIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(
+      res,
+      getChatRateLimitRules(req, tenant._id, parsedParams.data.sessionId)
+    ))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+
+    const { conversationIdRaw, sessionSecret } = await openSessionConversation(
+      tenant._id,
+      parsedParams.data.sessionId,
+      null,
+      user,
+      resolveSessionSecret(req)
+    );
+    const conversation = (await convex.query(anyApi.conversations.getConversationById, {
+      tenantId: tenant._id,
+      conversationId: conversationIdRaw
+    })) as ConversationSummary | null;
+
+    // Requesting a human again while one is already assigned is a no-op.
+    const status =
+      conversation?.status === "human"
+        ? "human"
+        : await setConversationStatus(tenant._id, conversationIdRaw, "pending_human");
+
+    res.status(200).json({
+      conversationId: String(conversationIdRaw),
+      ...(sessionSecret ? { sessionSecret } : {}),
+      status
+    });
+  } catch (error) {
+    if (error instanceof SessionForbiddenError) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+
+    console.error("Error handling /v1/conversations/:sessionId/handoff request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/messages/:messageId/feedback", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = messageIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid messageId" });
+    return;
+  }
+
+  const parsed = feedbackSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(res, getChatRateLimitRules(req, tenant._id, parsed.data.sessionId)))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsed.data.sessionId, user, req, res))) {
+      return;
+    }
+
+    const feedback = await convex.mutation(anyApi.feedback.submitFeedback, {
+      tenantId: tenant._id,
+      sessionId: parsed.data.sessionId,
+      messageId: parsedParams.data.messageId,
+      rating: parsed.data.rating,
+      comment: parsed.data.comment || undefined,
+      now: Date.now()
+    });
+
+    // Also covers assistant messages from other sessions, so IDs cannot be probed.
+    if (!feedback) {
+      res.status(404).json({ error: "Message not found" });
+      return;
+    }
+
+    res.status(200).json(feedback);
+  } catch (error) {
+    console.error("Error handling /v1/messages/:messageId/feedback request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/conversations/:sessionId/messages", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = sessionIdParamsSchema.safeParse(req.params);
+  const parsedQuery = sessionMessagesQuerySchema.safeParse(req.query);
+
+  if (!parsedParams.success || !parsedQuery.success) {
+    res.status(400).json({ error: "Invalid request" });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(
+      res,
+      getChatRateLimitRules(req, tenant._id, parsedParams.data.sessionId)
+    ))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  const { after, cursor, limit } = parsedQuery.data;
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+
+    // `after` returns everything newer than a timestamp; otherwise history is paged backwards
+    // from `cursor` (or the latest message).
+    const result =
+      after !== undefined
+        ? ((await convex.query(anyApi.conversations.getSessionMessagesSince, {
+            tenantId: tenant._id,
+            sessionId: parsedParams.data.sessionId,
+            after,
+            ...getSessionCaller(user, req)
+          })) as SessionMessages | null)
+        : ((await convex.query(anyApi.conversations.getSessionMessagesPage, {
+            tenantId: tenant._id,
+            sessionId: parsedParams.data.sessionId,
+            cursor,
+            limit
+          })) as SessionMessagesPage);
+
+    // The conversation was created by someone else between the access check and this query.
+    if (!result) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error handling /v1/conversations/:sessionId/messages request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/conversations/:sessionId/events", async (req, res) => {
+  if (!(await enforceRateLimit(res, [getIpRateLimitRule(req)]))) {
+    return;
+  }
+
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = sessionIdParamsSchema.safeParse(req.params);
+  const parsedQuery = conversationEventsQuerySchema.safeParse(req.query);
+
+  if (!parsedParams.success || !parsedQuery.success) {
+    res.status(400).json({ error: "Invalid request" });
+    return;
+  }
+
+  if (
+    !(await enforceRateLimit(
+      res,
+      getChatRateLimitRules(req, tenant._id, parsedParams.data.sessionId)
+    ))
+  ) {
+    return;
+  }
+
+  const user = resolveEndUser(req, res);
+
+  if (user === undefined) {
+    return;
+  }
+
+  try {
+    if (!(await authorizeSession(tenant._id, parsedParams.data.sessionId, user, req, res))) {
+      return;
+    }
+  } catch (error) {
+    console.error("Error handling /v1/conversations/:sessionId/events request", error);
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+
+  // The visitor may have gone while the checks above ran; `close` would never fire for the count.
+  if (res.closed) {
+    return;
+  }
+
+  // No await between the check and the increment, so concurrent connects cannot all slip through.
+  const streamKey = `${tenant._id}:${parsedParams.data.sessionId}`;
+  const openStreams = openEventStreams.get(streamKey) ?? 0;
+
+  if (openStreams >= MAX_EVENT_STREAMS_PER_SESSION) {
+    res.status(429).json({ error: "Too many open event streams for this session" });
+    return;
+  }
+
+  openEventStreams.set(streamKey, openStreams + 1);
+
+  // Without `after` only messages created from now on are delivered.
+  const after = parsedQuery.data.after ?? Date.now();
+  const sentMessageIds = new Set<string>();
+  let lastStatus: ConversationStatus | null = null;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const unsubscribe = convexRealtime.onUpdate(
+    anyApi.conversations.getSessionMessagesSince,
+    {
+      tenantId: tenant._id,
+      sessionId: parsedParams.data.sessionId,
+      after,
+      ...getSessionCaller(user, req)
+    },
+    (result: SessionMessages | null) => {
+      if (res.writableEnded) {
+        return;
+      }
+
+      // The conversation appeared and belongs to someone else; end the stream without its messages.
+      if (!result) {
+        res.end();
+        return;
+      }
+
+      if (lastStatus === null) {
+        writeServerSentEvent(res, { type: "ready", status: result.status, now: after });
+      } else if (result.status !== lastStatus) {
+        writeServerSentEvent(res, { type: "status", status: result.status });
+      }
+      lastStatus = result.status;
+
+      for (const message of result.messages) {
+        if (!sentMessageIds.has(message._id)) {
+          sentMessageIds.add(message._id);
+          writeServerSentEvent(res, { type: "message", message });
+        }
+      }
+    },
+    (error) => {
+      console.error("Error in /v1/conversations/:sessionId/events subscription", error);
+
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  );
+
+  // Comment lines keep proxies from closing an idle connection.
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(": ping\n\n");
+    }
+  }, EVENTS_HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+
+    const remaining = (openEventStreams.get(streamKey) ?? 1) - 1;
+
+    if (remaining > 0) {
+      openEventStreams.set(streamKey, remaining);
+    } else {
+      openEventStreams.delete(streamKey);
+    }
+  });
+});
+
+app.get("/v1/assistants/:assistantId", async (req, res) => {
+  const tenant = await resolveChatTenant(req, res);
+
+  if (!tenant) {
+    return;
+  }
+
+  const parsedParams = assistantIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid assistantId" });
+    return;
+  }
+
+  try {
+    const assistant = await loadAssistant(tenant._id, parsedParams.data.assistantId);
+
+    if (!assistant) {
+      res.status(404).json({ error: "Assistant not found" });
+      return;
+    }
+
+    // Only expose what the widget needs; the system prompt stays server-side.
+    res.status(200).json({
+      assistantId: assistant._id,
+      name: assistant.name,
+      welcomeMessage: assistant.welcomeMessage ?? null
+    });
+  } catch (error) {
+    console.error("Error handling /v1/assistants/:assistantId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/assistants", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  try {
+    const assistants = (await convex.query(anyApi.assistants.listAssistants, {
+      tenantId: admin.tenant._id
+    })) as AssistantProfile[];
+
+    res.status(200).json({ assistants });
+  } catch (error) {
+    console.error("Error handling /v1/admin/assistants request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/admin/assistants", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = createAssistantSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const assistantId = await convex.mutation(anyApi.assistants.createAssistant, {
+      tenantId: admin.tenant._id,
+      ...parsed.data,
+      now: Date.now()
+    });
+    const assistant = await loadAssistant(admin.tenant._id, String(assistantId));
+
+    res.status(201).json(assistant);
+  } catch (error) {
+    console.error("Error handling POST /v1/admin/assistants request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/assistants/:assistantId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = assistantIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid assistantId" });
+    return;
+  }
+
+  try {
+    const assistant = await loadAssistant(admin.tenant._id, parsedParams.data.assistantId);
+
+    if (!assistant) {
+      res.status(404).json({ error: "Assistant not found" });
+      return;
+    }
+
+    res.status(200).json(assistant);
+  } catch (error) {
+    console.error("Error handling /v1/admin/assistants/:assistantId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.patch("/v1/admin/assistants/:assistantId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = assistantIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid assistantId" });
+    return;
+  }
+
+  const parsed = updateAssistantSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const assistant = (await convex.mutation(anyApi.assistants.updateAssistant, {
+      tenantId: admin.tenant._id,
+      assistantId: parsedParams.data.assistantId,
+      ...parsed.data,
+      now: Date.now()
+    })) as AssistantProfile | null;
+
+    if (!assistant) {
+      res.status(404).json({ error: "Assistant not found" });
+      return;
+    }
+
+    res.status(200).json(assistant);
+  } catch (error) {
+    console.error("Error handling PATCH /v1/admin/assistants/:assistantId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/v1/admin/assistants/:assistantId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = assistantIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid assistantId" });
+    return;
+  }
+
+  try {
+    const deleted = (await convex.mutation(anyApi.assistants.deleteAssistant, {
+      tenantId: admin.tenant._id,
+      assistantId: parsedParams.data.assistantId
+    })) as boolean;
+
+    if (!deleted) {
+      res.status(404).json({ error: "Assistant not found" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/assistants/:assistantId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/documents", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  try {
+    const documents = (await convex.query(anyApi.knowledge.listDocuments, {
+      tenantId: admin.tenant._id
+    })) as KnowledgeDocument[];
+
+    res.status(200).json({ documents });
+  } catch (error) {
+    console.error("Error handling /v1/admin/documents request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/admin/documents", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = createDocumentSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const result = await ingestDocument(admin.tenant._id, parsed.data);
+
+    if (!result) {
+      res.status(400).json({ error: "Document has no text content" });
+      return;
+    }
+
+    res.status(201).json({
+      documentId: result.documentId,
+      title: parsed.data.title,
+      format: parsed.data.format,
+      sourceUrl: parsed.data.sourceUrl ?? null,
+      chunkCount: result.chunkCount
+    });
+  } catch (error) {
+    console.error("Error handling POST /v1/admin/documents request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/v1/admin/documents/:documentId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = documentIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid documentId" });
+    return;
+  }
+
+  try {
+    const deleted = (await convex.mutation(anyApi.knowledge.deleteDocument, {
+      tenantId: admin.tenant._id,
+      documentId: parsedParams.data.documentId
+    })) as boolean;
+
+    if (!deleted) {
+      res.status(404).json({ error: "Document not found" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/documents/:documentId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/conversations", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = listConversationsSchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
+  const { limit, cursor, ...filters } = parsed.data;
+  const continueCursor = cursor === undefined ? null : decodeListCursor(cursor, filters);
+
+  if (cursor !== undefined && continueCursor === null) {
+    res.status(400).json({ error: "Invalid cursor" });
+    return;
+  }
+
+  try {
+    const result = (await convex.query(anyApi.conversations.listConversations, {
+      tenantId: admin.tenant._id,
+      paginationOpts: { numItems: limit, cursor: continueCursor },
+      status: filters.status,
+      tag: filters.tag,
+      negativeFeedback: filters.negativeFeedback,
+      from: filters.from,
+      to: filters.to,
+      search: filters.q
+    })) as ConversationPage;
+
+    res.status(200).json({
+      conversations: result.page,
+      nextCursor: result.isDone ? null : encodeListCursor(result.continueCursor, filters)
+    });
+  } catch (error) {
+    console.error("Error handling /v1/admin/conversations request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Registered before /:conversationId so "export" is not read as a conversation ID.
+app.get("/v1/admin/conversations/export", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = bulkExportQuerySchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { format, fileFormat, ...filters } = parsed.data;
+  const toDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+  const range = `${toDay(filters.from)}_${toDay(filters.to - DAY_MS)}`;
+  const threads = iterateConversationThreads(admin.tenant._id, filters);
+
+  // Errors after the first byte cannot change the status code, so the response is cut off
+  // instead; a truncated NDJSON file or an unreadable zip makes the failure visible.
+  try {
+    if (format === "ndjson") {
+      setDownloadHeaders(
+        res,
+        "application/x-ndjson; charset=utf-8",
+        `conversations_${range}.ndjson`
+      );
+
+      for await (const thread of threads) {
+        if (res.destroyed) {
+          return;
+        }
+
+        await writeWithBackpressure(res, `${JSON.stringify(toExportRecord(thread))}\n`);
+      }
+    } else {
+      setDownloadHeaders(res, "application/zip", `conversations_${range}.zip`);
+      const zip = createZipWriter(res);
+
+      for await (const thread of threads) {
+        if (res.destroyed) {
+          return;
+        }
+
+        const file = formatConversationExport(thread, fileFormat);
+        await zip.addFile(
+          getExportFileName(thread, file.extension),
+          file.body,
+          thread.conversation.updatedAt
+        );
+      }
+
+      await zip.finish();
+    }
+
+    res.end();
+  } catch (error) {
+    console.error("Error handling /v1/admin/conversations/export request", error);
+
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
+    res.removeHeader("Content-Disposition");
+    res.removeHeader("Content-Type");
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/conversations/:conversationId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  try {
+    const thread = (await convex.query(anyApi.conversations.getConversationThread, {
+      tenantId: admin.tenant._id,
+      conversationId: parsedParams.data.conversationId
+    })) as ConversationThread | null;
+
+    if (!thread) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    res.status(200).json(thread);
+  } catch (error) {
+    console.error("Error handling /v1/admin/conversations/:conversationId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/conversations/:conversationId/export", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  const parsed = exportQuerySchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid format" });
+    return;
+  }
+
+  try {
+    const thread = (await convex.query(anyApi.conversations.getConversationThread, {
+      tenantId: admin.tenant._id,
+      conversationId: parsedParams.data.conversationId
+    })) as ConversationThread | null;
+
+    if (!thread) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    const file = formatConversationExport(thread, parsed.data.format);
+    setDownloadHeaders(res, file.contentType, getExportFileName(thread, file.extension));
+    res.status(200).send(file.body);
+  } catch (error) {
+    console.error("Error handling /v1/admin/conversations/:conversationId/export request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.patch("/v1/admin/conversations/:conversationId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  const parsed = updateConversationSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const { conversationId } = parsedParams.data;
+    const tags =
+      parsed.data.tags === undefined
+        ? undefined
+        : ((await convex.mutation(anyApi.conversations.setConversationTags, {
+            tenantId: admin.tenant._id,
+            conversationId,
+            tags: parsed.data.tags
+          })) as string[] | null);
+    const status =
+      parsed.data.status === undefined || tags === null
+        ? undefined
+        : await setConversationStatus(admin.tenant._id, conversationId, parsed.data.status);
+
+    if (tags === null || status === null) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    res.status(200).json({ conversationId, status, tags });
+  } catch (error) {
+    console.error("Error handling PATCH /v1/admin/conversations/:conversationId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/v1/admin/conversations/:conversationId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  try {
+    const deleted = (await convex.mutation(anyApi.retention.deleteConversation, {
+      tenantId: admin.tenant._id,
+      conversationId: parsedParams.data.conversationId
+    })) as boolean;
 
-app.disable("x-powered-by");
+    if (!deleted) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
 
-app.use(
-  cors({
-    origin: corsOrigin,
-    methods: ["GET", "POST", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "x-api-key", "x-widget-api-key", "x-admin-api-key"]
-  })
-);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/conversations/:conversationId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/v1/admin/sessions/:sessionId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = sessionIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return;
+  }
+
+  try {
+    const deleted = (await convex.mutation(anyApi.retention.eraseSession, {
+      tenantId: admin.tenant._id,
+      sessionId: parsedParams.data.sessionId
+    })) as boolean;
+
+    if (!deleted) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/sessions/:sessionId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/v1/admin/users/:userId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = userIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid userId" });
+    return;
+  }
+
+  try {
+    const result = (await convex.mutation(anyApi.retention.eraseUser, {
+      tenantId: admin.tenant._id,
+      userId: parsedParams.data.userId
+    })) as { erased: number; pending: boolean };
+
+    res.status(200).json({
+      userId: parsedParams.data.userId,
+      deletedConversations: result.erased,
+      pending: result.pending
+    });
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/users/:userId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/admin/conversations/:conversationId/messages", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  const parsed = agentMessageSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    // Replying as an agent takes the conversation over from the AI.
+    const status = await setConversationStatus(
+      admin.tenant._id,
+      parsedParams.data.conversationId,
+      "human"
+    );
+
+    if (!status) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    const messageId = await convex.mutation(anyApi.conversations.addMessage, {
+      tenantId: admin.tenant._id,
+      conversationId: parsedParams.data.conversationId,
+      role: "agent",
+      content: parsed.data.content,
+      authorName: parsed.data.authorName,
+      createdAt: Date.now()
+    });
+
+    res.status(201).json({ messageId: String(messageId), status });
+  } catch (error) {
+    console.error(
+      "Error handling POST /v1/admin/conversations/:conversationId/messages request",
+      error
+    );
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/conversations/:conversationId/usage", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid conversationId" });
+    return;
+  }
+
+  try {
+    const usage = await convex.query(anyApi.usage.getConversationUsage, {
+      tenantId: admin.tenant._id,
+      conversationId: parsedParams.data.conversationId
+    });
+
+    if (!usage) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    res.status(200).json({ usage });
+  } catch (error) {
+    console.error("Error handling /v1/admin/conversations/:conversationId/usage request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/usage", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = usageQuerySchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid date range", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const summary = await convex.action(anyApi.usage.getUsageSummary, {
+      tenantId: admin.tenant._id,
+      ...parsed.data
+    });
+
+    res.status(200).json(summary);
+  } catch (error) {
+    console.error("Error handling /v1/admin/usage request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/feedback", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = usageQuerySchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid date range", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const summary = await convex.action(anyApi.feedback.getFeedbackSummary, {
+      tenantId: admin.tenant._id,
+      ...parsed.data
+    });
+
+    res.status(200).json(summary);
+  } catch (error) {
+    console.error("Error handling /v1/admin/feedback request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/budget", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  try {
+    const budget = await convex.query(anyApi.budgets.getBudget, {
+      tenantId: admin.tenant._id,
+      now: Date.now()
+    });
+
+    if (!budget) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    res.status(200).json(budget);
+  } catch (error) {
+    console.error("Error handling GET /v1/admin/budget request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.patch("/v1/admin/budget", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = updateBudgetSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const budget = await convex.mutation(anyApi.budgets.updateBudget, {
+      tenantId: admin.tenant._id,
+      changes: parsed.data,
+      now: Date.now()
+    });
+
+    if (!budget) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    res.status(200).json({ budget });
+  } catch (error) {
+    console.error("Error handling PATCH /v1/admin/budget request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/retention", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  try {
+    const retention = await convex.query(anyApi.retention.getRetention, {
+      tenantId: admin.tenant._id
+    });
+
+    if (!retention) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    res.status(200).json(retention);
+  } catch (error) {
+    console.error("Error handling GET /v1/admin/retention request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.patch("/v1/admin/retention", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = updateRetentionSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const retention = await convex.mutation(anyApi.retention.updateRetention, {
+      tenantId: admin.tenant._id,
+      retentionDays: parsed.data.retentionDays,
+      now: Date.now()
+    });
+
+    if (!retention) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    res.status(200).json(retention);
+  } catch (error) {
+    console.error("Error handling PATCH /v1/admin/retention request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/v1/admin/webhooks", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  try {
+    const webhooks = (await convex.query(anyApi.webhooks.listWebhooks, {
+      tenantId: admin.tenant._id
+    })) as WebhookSummary[];
+
+    res.status(200).json({ webhooks });
+  } catch (error) {
+    console.error("Error handling GET /v1/admin/webhooks request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/admin/webhooks", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsed = createWebhookSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const secret = generateWebhookSecret();
+    const webhook = (await convex.mutation(anyApi.webhooks.createWebhook, {
+      tenantId: admin.tenant._id,
+      ...parsed.data,
+      secret,
+      now: Date.now()
+    })) as WebhookSummary;
+
+    // The signing secret is only ever returned here.
+    res.status(201).json({ ...webhook, secret });
+  } catch (error) {
+    console.error("Error handling POST /v1/admin/webhooks request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.patch("/v1/admin/webhooks/:webhookId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  const parsedParams = webhookIdParamsSchema.safeParse(req.params);
+
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid webhookId" });
+    return;
+  }
+
+  const parsed = updateWebhookSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const webhook = (await convex.mutation(anyApi.webhooks.updateWebhook, {
+      tenantId: admin.tenant._id,
+      webhookId: parsedParams.data.webhookId,
+      changes: parsed.data,
+      now: Date.now()
+    })) as WebhookSummary | null;
+
+    if (!webhook) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
 
-app.use((_req, res, next) => {
-  res.setHeader("X-Content-Type-Options", "nosniff");
-  res.setHeader("X-Frame-Options", "DENY");
-  res.setHeader("Referrer-Policy", "no-referrer");
-  res.setHeader("Permissions-Policy", "camera=(), microphone=(), geolocation=()");
-  if (env.NODE_ENV === "production") {
-    res.setHeader("Strict-Transport-Security", "max-age=31536000; includeSubDomains");
+    res.status(200).json(webhook);
+  } catch (error) {
+    console.error("Error handling PATCH /v1/admin/webhooks/:webhookId request", error);
+    res.status(500).json({ error: "Internal server error" });
   }
-  next();
 });
 
-app.use(express.json({ limit: "2mb" }));
+app.delete("/v1/admin/webhooks/:webhookId", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
 
-app.get("/health", (_req, res) => {
-  res.setHeader("Cache-Control", "no-store");
-  res.status(200).json({ status: "ok" });
-});
+  if (!admin) {
+    return;
+  }
 
-app.get("/v1/openapi.json", (req, res) => {
-  const baseUrl = `${req.protocol}://${req.get("host")}`;
+  const parsedParams = webhookIdParamsSchema.safeParse(req.params);
 
-  res.status(200).json({
-    openapi: "3.1.0",
-    info: {
-      title: "Open Chat Widget API",
-      version: "1.0.0",
-      description: "Headless chat and conversation APIs for custom frontends."
-    },
-    servers: [{ url: baseUrl }],
-    paths: {
-      "/health": {
-        get: {
-          summary: "Health check",
-          responses: {
-            "200": {
-              description: "Service is healthy"
-            }
-          }
-        }
-      },
-      "/v1/chat": {
-        post: {
-          summary: "Non-streaming chat response",
-          security: [{ ApiKeyAuth: [] }],
-          responses: {
-            "200": {
-              description: "Assistant response"
-            }
-          }
-        }
-      },
-      "/v1/chat/stream": {
-        post: {
-          summary: "Streaming chat response (NDJSON)",
-          security: [{ ApiKeyAuth: [] }],
-          responses: {
-            "200": {
-              description: "NDJSON stream events"
-            }
-          }
-        }
-      },
-      "/v1/admin/conversations": {
-        get: {
-          summary: "List conversations",
-          security: [{ AdminApiKeyAuth: [] }],
-          responses: {
-            "200": {
-              description: "Conversation list"
-            }
-          }
-        }
-      },
-      "/v1/admin/conversations/{conversationId}": {
-        get: {
-          summary: "Get conversation thread",
-          security: [{ AdminApiKeyAuth: [] }],
-          parameters: [
-            {
-              name: "conversationId",
-              in: "path",
-              required: true,
-              schema: { type: "string" }
-            }
-          ],
-          responses: {
-            "200": {
-              description: "Conversation with messages"
-            },
-            "404": {
-              description: "Conversation not found"
-            }
-          }
-        }
-      }
-    },
-    components: {
-      securitySchemes: {
-        ApiKeyAuth: {
-          type: "apiKey",
-          in: "header",
-          name: "x-api-key"
-        },
-        AdminApiKeyAuth: {
-          type: "apiKey",
-          in: "header",
-          name: "x-admin-api-key"
-        }
-      }
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid webhookId" });
+    return;
+  }
+
+  try {
+    const deleted = (await convex.mutation(anyApi.webhooks.deleteWebhook, {
+      tenantId: admin.tenant._id,
+      webhookId: parsedParams.data.webhookId
+    })) as boolean;
+
+    if (!deleted) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
     }
-  });
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/webhooks/:webhookId request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
 });
 
-app.get("/widget/chat-widget.js", (_req, res) => {
-  if (!existsSync(widgetBundlePath)) {
-    res.status(404).json({
-      error: "Widget bundle not found. Build the widget with `npm run build --workspace widget`."
-    });
+app.get("/v1/admin/webhooks/:webhookId/deliveries", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  res.setHeader("Content-Type", "application/javascript; charset=utf-8");
-  res.setHeader(
-    "Cache-Control",
-    env.NODE_ENV === "production" ? "public, max-age=300, immutable" : "no-store"
-  );
-  res.sendFile(widgetBundlePath);
-});
+  const parsedParams = webhookIdParamsSchema.safeParse(req.params);
 
-app.post("/v1/chat", async (req, res) => {
-  if (!isWithinRateLimit(req)) {
-    res.status(429).json({ error: "Too many requests" });
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid webhookId" });
     return;
   }
 
-  if (!requireChatApiKey(req, res)) {
+  const parsedQuery = webhookDeliveriesQuerySchema.safeParse(req.query);
+
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: "Invalid query", details: parsedQuery.error.flatten() });
     return;
   }
 
-  const parsed = parseChatRequest(req, res);
+  try {
+    const deliveries = (await convex.query(anyApi.webhooks.listDeliveries, {
+      tenantId: admin.tenant._id,
+      webhookId: parsedParams.data.webhookId,
+      limit: parsedQuery.data.limit
+    })) as WebhookDelivery[] | null;
 
-  if (!parsed) {
+    if (!deliveries) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+
+    res.status(200).json({ deliveries });
+  } catch (error) {
+    console.error("Error handling /v1/admin/webhooks/:webhookId/deliveries request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/v1/admin/webhooks/:webhookId/deliveries/:deliveryId/retry", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  try {
-    const result = await runChatCompletion(parsed.sessionId, parsed.message);
+  const parsedParams = webhookDeliveryParamsSchema.safeParse(req.params);
 
-    res.status(200).json({
-      conversationId: result.conversationId,
-      message: result.finalMessage
+  if (!parsedParams.success) {
+    res.status(400).json({ error: "Invalid webhookId or deliveryId" });
+    return;
+  }
+
+  try {
+    const status = await convex.mutation(anyApi.webhooks.retryDelivery, {
+      tenantId: admin.tenant._id,
+      webhookId: parsedParams.data.webhookId,
+      deliveryId: parsedParams.data.deliveryId,
+      now: Date.now()
     });
+
+    if (!status) {
+      res.status(404).json({ error: "Delivery not found" });
+      return;
+    }
+
+    res.status(202).json({ deliveryId: parsedParams.data.deliveryId, status });
   } catch (error) {
-    console.error("Error handling /v1/chat request", error);
+    console.error(
+      "Error handling POST /v1/admin/webhooks/:webhookId/deliveries/:deliveryId/retry request",
+      error
+    );
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-async function handleStreamingChat(req: Request, res: Response): Promise<void> {
-  if (!isWithinRateLimit(req)) {
-    res.status(429).json({ error: "Too many requests" });
+app.get("/v1/admin/allowed-origins", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  if (!requireChatApiKey(req, res)) {
+  res.status(200).json({ allowedOrigins: admin.tenant.allowedOrigins });
+});
+
+app.post("/v1/admin/allowed-origins", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  const parsed = parseChatRequest(req, res);
+  const parsed = allowedOriginSchema.safeParse(req.body);
+  const origin = parsed.success ? normalizeOriginPattern(parsed.data.origin) : null;
 
-  if (!parsed) {
+  if (!origin) {
+    res
+      .status(400)
+      .json({ error: "Invalid origin; use e.g. https://example.com or https://*.example.com" });
     return;
   }
 
   try {
-    const { conversationId, conversationIdRaw, history } = await prepareConversationData(
-      parsed.sessionId,
-      parsed.message
-    );
+    const allowedOrigins = (await convex.mutation(anyApi.tenants.addAllowedOrigin, {
+      tenantId: admin.tenant._id,
+      origin,
+      now: Date.now()
+    })) as string[] | null;
 
-    res.status(200);
-    res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
-    res.setHeader("Cache-Control", "no-store, no-transform");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("X-Accel-Buffering", "no");
+    if (!allowedOrigins) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
 
-    writeStreamLine(res, { type: "start", conversationId });
+    forgetTenantKeys(admin.tenant._id);
+    res.status(200).json({ allowedOrigins });
+  } catch (error) {
+    console.error("Error handling POST /v1/admin/allowed-origins request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
 
-    const finalMessage = await generateAssistantMessage(history, (token) => {
-      if (!res.writableEnded) {
-        writeStreamLine(res, { type: "token", token });
-      }
-    });
+app.delete("/v1/admin/allowed-origins", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
 
-    await persistAssistantMessage(conversationIdRaw, finalMessage);
+  if (!admin) {
+    return;
+  }
 
-    if (!res.writableEnded) {
-      writeStreamLine(res, { type: "done", message: finalMessage, conversationId });
-      res.end();
-    }
-  } catch (error) {
-    console.error("Error handling streaming chat request", error);
+  const parsed = allowedOriginSchema.safeParse(req.query);
+  const origin = parsed.success ? normalizeOriginPattern(parsed.data.origin) : null;
 
-    if (!res.headersSent) {
-      res.status(500).json({ error: "Internal server error" });
+  if (!origin) {
+    res.status(400).json({ error: "Invalid origin" });
+    return;
+  }
+
+  try {
+    const allowedOrigins = (await convex.mutation(anyApi.tenants.removeAllowedOrigin, {
+      tenantId: admin.tenant._id,
+      origin,
+      now: Date.now()
+    })) as string[] | null;
+
+    if (!allowedOrigins) {
+      res.status(404).json({ error: "Tenant not found" });
       return;
     }
 
-    if (!res.writableEnded) {
-      writeStreamLine(res, { type: "error", error: "Internal server error" });
-      res.end();
-    }
+    forgetTenantKeys(admin.tenant._id);
+    res.status(200).json({ allowedOrigins });
+  } catch (error) {
+    console.error("Error handling DELETE /v1/admin/allowed-origins request", error);
+    res.status(500).json({ error: "Internal server error" });
   }
-}
-
-app.post("/v1/chat/stream", async (req, res) => {
-  await handleStreamingChat(req, res);
 });
 
-app.post("/chat", async (req, res) => {
-  await handleStreamingChat(req, res);
+app.get("/v1/admin/tenants", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
+    return;
+  }
+
+  if (!admin.isPlatformAdmin) {
+    res.status(403).json({ error: "Forbidden" });
+    return;
+  }
+
+  try {
+    const tenants = (await convex.query(anyApi.tenants.listTenants, {})) as Tenant[];
+
+    res.status(200).json({ tenants });
+  } catch (error) {
+    console.error("Error handling /v1/admin/tenants request", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
 });
 
-app.get("/v1/admin/conversations", async (req, res) => {
-  if (!requireAdminApiKey(req, res)) {
+app.post("/v1/admin/tenants", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  const parsed = listConversationsSchema.safeParse(req.query);
+  if (!admin.isPlatformAdmin) {
+    res.status(403).json({ error: "Forbidden" });
+    return;
+  }
+
+  const parsed = createTenantSchema.safeParse(req.body);
 
   if (!parsed.success) {
-    res.status(400).json({ error: "Invalid query parameters" });
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
     return;
   }
 
   try {
-    const allConversations = (await convex.query(anyApi.conversations.listConversations, {})) as
-      | ConversationSummary[]
-      | null;
+    const widgetApiKey = generateApiKey("widget");
+    const adminApiKey = generateApiKey("admin");
+    const tenant = (await convex.mutation(anyApi.tenants.createTenant, {
+      ...parsed.data,
+      widgetKeyHash: hashApiKey(widgetApiKey),
+      widgetKeyPrefix: getApiKeyPrefix(widgetApiKey),
+      adminKeyHash: hashApiKey(adminApiKey),
+      adminKeyPrefix: getApiKeyPrefix(adminApiKey),
+      now: Date.now()
+    })) as Tenant | null;
 
-    const conversations = (allConversations ?? []).slice(0, parsed.data.limit);
+    if (!tenant) {
+      res.status(409).json({ error: "Tenant slug already exists" });
+      return;
+    }
 
-    res.status(200).json({
-      conversations,
-      total: allConversations?.length ?? 0
-    });
+    // The plain keys are only ever returned here and when they are rotated.
+    res.status(201).json({ tenant, widgetApiKey, adminApiKey });
   } catch (error) {
-    console.error("Error handling /v1/admin/conversations request", error);
+    console.error("Error handling POST /v1/admin/tenants request", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.get("/v1/admin/conversations/:conversationId", async (req, res) => {
-  if (!requireAdminApiKey(req, res)) {
+app.post("/v1/admin/tenants/:tenantId/rotate-key", async (req, res) => {
+  const admin = await resolveAdminTenant(req, res);
+
+  if (!admin) {
     return;
   }
 
-  const parsedParams = conversationIdParamsSchema.safeParse(req.params);
+  const parsedParams = tenantIdParamsSchema.safeParse(req.params);
 
   if (!parsedParams.success) {
-    res.status(400).json({ error: "Invalid conversationId" });
+    res.status(400).json({ error: "Invalid tenantId" });
+    return;
+  }
+
+  const parsed = rotateTenantKeySchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request payload", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { tenantId } = parsedParams.data;
+
+  if (!admin.isPlatformAdmin && tenantId !== admin.tenant._id) {
+    res.status(403).json({ error: "Forbidden" });
     return;
   }
 
   try {
-    const thread = (await convex.query(anyApi.conversations.getConversationThread, {
-      conversationId: parsedParams.data.conversationId
-    })) as ConversationThread | null;
+    const tenant = (await convex.query(anyApi.tenants.getTenant, { tenantId })) as Tenant | null;
 
-    if (!thread) {
-      res.status(404).json({ error: "Conversation not found" });
+    if (!tenant) {
+      res.status(404).json({ error: "Tenant not found" });
       return;
     }
 
-    res.status(200).json(thread);
-  } catch (error) {
-    if (error instanceof Error && error.message.toLowerCase().includes("invalid")) {
-      res.status(400).json({ error: "Invalid conversationId" });
+    if (tenant.slug === DEFAULT_TENANT_SLUG) {
+      res.status(400).json({
+        error: "The default tenant uses WIDGET_API_KEY and ADMIN_API_KEY; rotate them in the env"
+      });
       return;
     }
-    console.error("Error handling /v1/admin/conversations/:conversationId request", error);
+
+    const apiKey = generateApiKey(parsed.data.kind);
+    const updated = (await convex.mutation(anyApi.tenants.rotateTenantKey, {
+      tenantId,
+      kind: parsed.data.kind,
+      keyHash: hashApiKey(apiKey),
+      keyPrefix: getApiKeyPrefix(apiKey),
+      now: Date.now()
+    })) as Tenant | null;
+
+    if (!updated) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    forgetTenantKeys(tenantId);
+    res.status(200).json({ tenant: updated, kind: parsed.data.kind, apiKey });
+  } catch (error) {
+    console.error("Error handling POST /v1/admin/tenants/:tenantId/rotate-key request", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.listen(env.PORT, () => {
-  console.log(`Backend listening on http://localhost:${env.PORT}`);
-});
+Promise.all([bootstrapDefaultTenant(), watchTenantOrigins()])
+  .then(() => {
+    app.listen(env.PORT, () => {
+      console.log(`Backend listening on http://localhost:${env.PORT}`);
+    });
+  })
+  .catch((error) => {
+    console.error("Failed to prepare the default tenant", error);
+    process.exit(1);
+  });
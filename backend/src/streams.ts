@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+
+/** A stream event as sent to clients; `seq` counts from 1, so resuming after 0 replays it all. */
+export type SequencedEvent<T extends object> = T & { seq: number };
+
+export type StreamReader<T extends object> = {
+  write(event: SequencedEvent<T>): void;
+  end(): void;
+};
+
+export type ChatStream<T extends object> = {
+  id: string;
+  /** Aborted by `cancel()`, or once every reader has been gone for the detach grace period. */
+  signal: AbortSignal;
+  push(payload: T): void;
+  /** No more events follow; attached readers are ended and later ones only get the replay. */
+  finish(): void;
+  cancel(): void;
+  /** Replays the events after `after`, then follows live ones. Returns a function that detaches. */
+  attach(after: number, reader: StreamReader<T>): () => void;
+};
+
+export type StreamRegistry<T extends object> = {
+  create(tenantId: string, sessionId: string): ChatStream<T>;
+  /** Null when the stream expired or belongs to another tenant or session. */
+  get(tenantId: string, sessionId: string, streamId: string): ChatStream<T> | null;
+};
+
+type StreamState = {
+  finishedAt: number | null;
+};
+
+type StreamRecord<T extends object> = {
+  stream: ChatStream<T>;
+  tenantId: string;
+  sessionId: string;
+  state: StreamState;
+};
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps in-progress generations in memory so a client whose connection dropped can reattach and
+ * continue from the last event it saw. Streams live in this process only, so resuming needs the
+ * same backend instance (sticky sessions when running several).
+ */
+export function createStreamRegistry<T extends object>(options: {
+  /** How long a finished stream can still be replayed. */
+  retentionMs: number;
+  /** How long generation continues with no reader attached before it is aborted. */
+  detachGraceMs: number;
+}): StreamRegistry<T> {
+  const records = new Map<string, StreamRecord<T>>();
+
+  const sweepTimer = setInterval(() => {
+    const expiredBefore = Date.now() - options.retentionMs;
+
+    for (const [id, record] of records) {
+      if (record.state.finishedAt !== null && record.state.finishedAt < expiredBefore) {
+        records.delete(id);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+
+  function createStream(state: StreamState): ChatStream<T> {
+    const controller = new AbortController();
+    const events: Array<SequencedEvent<T>> = [];
+    const readers = new Set<StreamReader<T>>();
+    let detachTimer: NodeJS.Timeout | null = null;
+
+    const stream: ChatStream<T> = {
+      id: randomUUID(),
+      signal: controller.signal,
+      push(payload) {
+        if (state.finishedAt !== null) {
+          return;
+        }
+
+        const event = { ...payload, seq: events.length + 1 };
+        events.push(event);
+
+        for (const reader of readers) {
+          reader.write(event);
+        }
+      },
+      finish() {
+        if (state.finishedAt !== null) {
+          return;
+        }
+
+        state.finishedAt = Date.now();
+
+        if (detachTimer) {
+          clearTimeout(detachTimer);
+          detachTimer = null;
+        }
+
+        for (const reader of readers) {
+          reader.end();
+        }
+
+        readers.clear();
+      },
+      cancel() {
+        controller.abort();
+      },
+      attach(after, reader) {
+        for (const event of events) {
+          if (event.seq > after) {
+            reader.write(event);
+          }
+        }
+
+        if (state.finishedAt !== null) {
+          reader.end();
+          return () => {};
+        }
+
+        if (detachTimer) {
+          clearTimeout(detachTimer);
+          detachTimer = null;
+        }
+
+        readers.add(reader);
+
+        return () => {
+          if (!readers.delete(reader) || readers.size > 0 || state.finishedAt !== null) {
+            return;
+          }
+
+          // Nobody is reading; give the client a moment to reconnect before paying for the rest.
+          detachTimer = setTimeout(() => controller.abort(), options.detachGraceMs);
+          detachTimer.unref();
+        };
+      }
+    };
+
+    return stream;
+  }
+
+  return {
+    create(tenantId, sessionId) {
+      const state: StreamState = { finishedAt: null };
+      const stream = createStream(state);
+      records.set(stream.id, { stream, tenantId, sessionId, state });
+      return stream;
+    },
+    get(tenantId, sessionId, streamId) {
+      const record = records.get(streamId);
+
+      if (!record || record.tenantId !== tenantId || record.sessionId !== sessionId) {
+        return null;
+      }
+
+      return record.stream;
+    }
+  };
+}
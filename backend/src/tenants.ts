@@ -0,0 +1,85 @@
+import { createHash, randomBytes } from "node:crypto";
+
+export type ApiKeyKind = "widget" | "admin";
+
+export type Tenant = {
+  _id: string;
+  name: string;
+  slug: string;
+  widgetKeyPrefix: string;
+  adminKeyPrefix?: string;
+  allowedOrigins: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const DEFAULT_TENANT_SLUG = "default";
+
+const KEY_PREFIX_LENGTH = 12;
+const ORIGIN_PATTERN = /^(https?):\/\/(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(:\d{1,5})?\/?$/;
+
+/** API keys are only stored as SHA-256 hashes; lookups hash the presented key the same way. */
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/** Shown in listings so admins can tell which key is active without revealing it. */
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, KEY_PREFIX_LENGTH);
+}
+
+export function generateApiKey(kind: ApiKeyKind): string {
+  return `osw_${kind}_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Normalizes an allowed-origin entry to `scheme://host[:port]`. A leading `*.` matches any
+ * subdomain (but not the bare domain). Returns null for paths, other schemes or malformed hosts.
+ */
+export function normalizeOriginPattern(value: string): string | null {
+  const match = ORIGIN_PATTERN.exec(value.trim().toLowerCase());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme, wildcard = "", host, port = ""] = match;
+  // Browsers omit default ports from the Origin header.
+  const isDefaultPort =
+    (scheme === "https" && port === ":443") || (scheme === "http" && port === ":80");
+
+  return `${scheme}://${wildcard}${host}${isDefaultPort ? "" : port}`;
+}
+
+/** Origin of an `Origin` or `Referer` header value, or null when it has none (e.g. `null`). */
+export function getUrlOrigin(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const origin = new URL(value).origin;
+    return origin === "null" ? null : origin.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function isOriginAllowed(patterns: string[], origin: string): boolean {
+  return patterns.some((pattern) => {
+    const [scheme, host] = pattern.split("://");
+
+    if (!host.startsWith("*.")) {
+      return origin === pattern;
+    }
+
+    const schemePrefix = `${scheme}://`;
+    const suffix = host.slice(1);
+
+    return (
+      origin.startsWith(schemePrefix) &&
+      origin.endsWith(suffix) &&
+      origin.length > schemePrefix.length + suffix.length
+    );
+  });
+}
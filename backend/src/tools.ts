@@ -0,0 +1,225 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { VerifiedUser } from "./identity.js";
+import type { LlmToolCall, LlmToolDefinition } from "./llm.js";
+
+export type ToolContext = {
+  tenantId: string;
+  conversationId: string;
+  sessionId: string;
+  /** Present when the visitor was identified with a signed user token. */
+  user?: VerifiedUser;
+};
+
+export type ToolDefinition<TArgs = unknown> = {
+  name: string;
+  description: string;
+  /** Short user-facing status shown while the tool runs, e.g. "Looking up your order…". */
+  statusText?: string;
+  schema: z.ZodType<TArgs>;
+  /** JSON schema sent to the model. Derived from `schema` when omitted. */
+  parameters?: Record<string, unknown>;
+  handler: (args: TArgs, context: ToolContext) => Promise<unknown>;
+};
+
+export type ToolExecutionResult = {
+  ok: boolean;
+  /** Serialized result (or error) handed back to the model. */
+  output: string;
+};
+
+export type ToolRegistry = {
+  isEmpty(): boolean;
+  definitions(): LlmToolDefinition[];
+  statusText(name: string): string;
+  execute(call: LlmToolCall, context: ToolContext): Promise<ToolExecutionResult>;
+};
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_TOOL_OUTPUT_LENGTH = 8000;
+
+const webhookToolConfigSchema = z.object({
+  name: z.string().regex(TOOL_NAME_PATTERN),
+  description: z.string().min(1),
+  statusText: z.string().min(1).optional(),
+  url: z.string().url(),
+  method: z.enum(["GET", "POST"]).default("POST"),
+  headers: z.record(z.string()).default({}),
+  timeoutMs: z.number().int().positive().max(60_000).default(10_000),
+  parameters: z.record(z.unknown()).default({ type: "object", properties: {} })
+});
+
+const toolsConfigSchema = z.object({
+  tools: z.array(webhookToolConfigSchema).default([])
+});
+
+type WebhookToolConfig = z.infer<typeof webhookToolConfigSchema>;
+
+/**
+ * Types a tool's handler from its schema, then hides the argument type so tools with different
+ * arguments share one registry. The registry calls the handler only with the output of `schema`,
+ * so the arguments are not parsed (and transforms not run) a second time here.
+ */
+export function defineTool<TArgs>(tool: ToolDefinition<TArgs>): ToolDefinition {
+  return {
+    ...tool,
+    handler: (args, context) => tool.handler(args as TArgs, context)
+  };
+}
+
+export const builtinTools = {
+  get_current_time: defineTool({
+    name: "get_current_time",
+    description: "Returns the current date and time, optionally in a given IANA time zone.",
+    statusText: "Checking the time…",
+    schema: z.object({
+      timeZone: z.string().min(1).max(64).optional()
+    }),
+    handler: async ({ timeZone }) => {
+      const now = new Date();
+
+      return {
+        iso: now.toISOString(),
+        formatted: new Intl.DateTimeFormat("en-US", {
+          dateStyle: "full",
+          timeStyle: "long",
+          timeZone
+        }).format(now)
+      };
+    }
+  })
+} satisfies Record<string, ToolDefinition>;
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_TOOL_OUTPUT_LENGTH)}…[truncated]`
+    : output;
+}
+
+function createWebhookTool(config: WebhookToolConfig): ToolDefinition {
+  return defineTool({
+    name: config.name,
+    description: config.description,
+    statusText: config.statusText,
+    // The webhook validates its own input; the JSON schema only guides the model.
+    schema: z.record(z.unknown()),
+    parameters: config.parameters,
+    handler: async (args, context) => {
+      const url = new URL(config.url);
+      const init: RequestInit = {
+        method: config.method,
+        headers: { ...config.headers },
+        signal: AbortSignal.timeout(config.timeoutMs)
+      };
+
+      if (config.method === "GET") {
+        for (const [key, value] of Object.entries(args)) {
+          url.searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
+        }
+      } else {
+        init.headers = { ...config.headers, "Content-Type": "application/json" };
+        init.body = JSON.stringify({
+          tool: config.name,
+          arguments: args,
+          tenantId: context.tenantId,
+          conversationId: context.conversationId,
+          sessionId: context.sessionId,
+          user: context.user
+        });
+      }
+
+      const response = await fetch(url, init);
+      const body = await response.text();
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}: ${body.slice(0, 500)}`);
+      }
+
+      try {
+        return JSON.parse(body) as unknown;
+      } catch {
+        return body;
+      }
+    }
+  });
+}
+
+export function loadWebhookTools(configPath: string): ToolDefinition[] {
+  const raw = JSON.parse(readFileSync(configPath, "utf8")) as unknown;
+  const parsed = toolsConfigSchema.parse(raw);
+
+  return parsed.tools.map(createWebhookTool);
+}
+
+export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
+  const byName = new Map<string, ToolDefinition>();
+
+  for (const tool of tools) {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}"`);
+    }
+
+    if (byName.has(tool.name)) {
+      throw new Error(`Duplicate tool name "${tool.name}"`);
+    }
+
+    byName.set(tool.name, tool);
+  }
+
+  const definitions: LlmToolDefinition[] = [...byName.values()].map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters:
+      tool.parameters ??
+      (zodToJsonSchema(tool.schema, { $refStrategy: "none", target: "openApi3" }) as Record<
+        string,
+        unknown
+      >)
+  }));
+
+  return {
+    isEmpty() {
+      return byName.size === 0;
+    },
+    definitions() {
+      return definitions;
+    },
+    statusText(name) {
+      return byName.get(name)?.statusText ?? `Running ${name}…`;
+    },
+    async execute(call, context) {
+      const tool = byName.get(call.name);
+
+      if (!tool) {
+        return { ok: false, output: JSON.stringify({ error: `Unknown tool "${call.name}"` }) };
+      }
+
+      let rawArgs: unknown;
+      try {
+        rawArgs = JSON.parse(call.arguments || "{}");
+      } catch {
+        return { ok: false, output: JSON.stringify({ error: "Arguments are not valid JSON" }) };
+      }
+
+      const parsedArgs = tool.schema.safeParse(rawArgs);
+
+      if (!parsedArgs.success) {
+        return {
+          ok: false,
+          output: JSON.stringify({ error: "Invalid arguments", details: parsedArgs.error.flatten() })
+        };
+      }
+
+      try {
+        const result = await tool.handler(parsedArgs.data, context);
+        const output = typeof result === "string" ? result : JSON.stringify(result ?? null);
+
+        return { ok: true, output: truncateOutput(output) };
+      } catch (error) {
+        console.error(`Tool "${call.name}" failed`, error);
+        return { ok: false, output: JSON.stringify({ error: "Tool execution failed" }) };
+      }
+    }
+  };
+}
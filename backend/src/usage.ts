@@ -0,0 +1,71 @@
+import { z } from "zod";
+import type { LlmUsage } from "./llm.js";
+
+/** USD per million tokens. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+export type ModelPrices = Record<string, ModelPrice>;
+
+const modelPricesSchema = z.record(
+  z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative()
+  })
+);
+
+/**
+ * Parses `MODEL_PRICES`, a JSON object of model name to per-million-token prices, e.g.
+ * `{"gpt-4.1-mini":{"input":0.4,"output":1.6}}`. A `*` entry prices any model not listed.
+ */
+export function parseModelPrices(raw: string | undefined): ModelPrices {
+  if (!raw) {
+    return {};
+  }
+
+  let value: unknown;
+
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error("MODEL_PRICES must be valid JSON.");
+  }
+
+  const parsed = modelPricesSchema.safeParse(value);
+
+  if (!parsed.success) {
+    throw new Error(
+      'MODEL_PRICES must map model names to { "input": number, "output": number } in USD per 1M tokens.'
+    );
+  }
+
+  return parsed.data;
+}
+
+/** Cost in USD, or undefined when the model has no configured price. */
+export function calculateCostUsd(
+  prices: ModelPrices,
+  model: string,
+  usage: LlmUsage
+): number | undefined {
+  const price = prices[model] ?? prices["*"];
+
+  if (!price) {
+    return undefined;
+  }
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function addUsage(total: LlmUsage | null, usage: LlmUsage | null): LlmUsage | null {
+  if (!usage) {
+    return total;
+  }
+
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens
+  };
+}
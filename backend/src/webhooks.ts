@@ -0,0 +1,100 @@
+import { randomBytes } from "node:crypto";
+import { BlockList, isIP } from "node:net";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "shared/webhooks";
+import { z } from "zod";
+
+export type WebhookSummary = {
+  _id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type WebhookDelivery = {
+  _id: string;
+  event: WebhookEvent;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Loopback, private, link-local and other non-public ranges a delivery must not reach. IPv4 rules
+// also match IPv4-mapped IPv6 addresses such as `::ffff:127.0.0.1`.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isLocalHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const family = isIP(host);
+
+  if (family === 0) {
+    return host === "localhost" || host.endsWith(".localhost");
+  }
+
+  return blockedAddresses.check(host, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Requires an https URL on a public host. Only the literal host is checked; a public name that
+ * resolves to a private address is not caught here. `allowLocal` (development) also accepts http
+ * and local hosts so a receiver on the same machine can be tested.
+ */
+export function createWebhookUrlSchema(allowLocal: boolean) {
+  return z
+    .string()
+    .trim()
+    .max(2000)
+    .url()
+    .superRefine((value, ctx) => {
+      const url = new URL(value);
+
+      if (url.protocol !== "https:" && !(allowLocal && url.protocol === "http:")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: allowLocal ? "URL must use http or https" : "URL must use https"
+        });
+        return;
+      }
+
+      if (!allowLocal && isLocalHost(url.hostname)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "URL must not point to a private, loopback or link-local address"
+        });
+      }
+    });
+}
+
+export const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1)
+  .transform((events) => [...new Set(events)]);
+
+/** Signing secret shown once on creation; receivers verify `X-Webhook-Signature` with it. */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
@@ -0,0 +1,123 @@
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+
+const assistantFields = {
+  name: v.string(),
+  systemPrompt: v.string(),
+  model: v.optional(v.string()),
+  temperature: v.optional(v.number()),
+  welcomeMessage: v.optional(v.string())
+};
+
+export const listAssistants = query({
+  args: {
+    tenantId: v.id("tenants")
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("assistants")
+      .withIndex("by_tenant_updated_at", (q) => q.eq("tenantId", args.tenantId))
+      .order("desc")
+      .collect();
+  }
+});
+
+// Takes a plain string so callers holding an untrusted ID (widget requests) get `null`
+// back instead of a validation error. Update and delete do the same for admin requests.
+export const getAssistant = query({
+  args: {
+    tenantId: v.id("tenants"),
+    assistantId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const assistantId = ctx.db.normalizeId("assistants", args.assistantId);
+
+    if (!assistantId) {
+      return null;
+    }
+
+    const assistant = await ctx.db.get(assistantId);
+    return assistant?.tenantId === args.tenantId ? assistant : null;
+  }
+});
+
+export const createAssistant = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    ...assistantFields,
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const { now, ...fields } = args;
+
+    return await ctx.db.insert("assistants", {
+      ...fields,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+});
+
+export const updateAssistant = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    assistantId: v.string(),
+    name: v.optional(v.string()),
+    systemPrompt: v.optional(v.string()),
+    // `null` clears the field; omitted fields keep their current value.
+    model: v.optional(v.union(v.string(), v.null())),
+    temperature: v.optional(v.union(v.number(), v.null())),
+    welcomeMessage: v.optional(v.union(v.string(), v.null())),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const { tenantId, assistantId: rawAssistantId, now, ...fields } = args;
+    const assistantId = ctx.db.normalizeId("assistants", rawAssistantId);
+
+    if (!assistantId) {
+      return null;
+    }
+
+    const existing = await ctx.db.get(assistantId);
+
+    if (existing?.tenantId !== tenantId) {
+      return null;
+    }
+
+    // Omitted fields are absent from `args`; patching a sent `null` to `undefined` removes it.
+    const changes = Object.fromEntries(
+      Object.entries(fields).map(([field, value]) => [field, value ?? undefined])
+    ) as Partial<Doc<"assistants">>;
+
+    await ctx.db.patch(assistantId, {
+      ...changes,
+      updatedAt: now
+    });
+
+    return await ctx.db.get(assistantId);
+  }
+});
+
+export const deleteAssistant = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    assistantId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const assistantId = ctx.db.normalizeId("assistants", args.assistantId);
+
+    if (!assistantId) {
+      return false;
+    }
+
+    const existing = await ctx.db.get(assistantId);
+
+    if (existing?.tenantId !== args.tenantId) {
+      return false;
+    }
+
+    await ctx.db.delete(assistantId);
+    return true;
+  }
+});
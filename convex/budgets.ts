@@ -0,0 +1,222 @@
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { budgetValidator } from "./schema";
+
+type Budget = Infer<typeof budgetValidator>;
+type BudgetLimitField = Exclude<keyof Budget, "warningRatio">;
+type BudgetPeriod = "day" | "month" | "session";
+type BudgetMetric = "tokens" | "usd";
+type UsageAmounts = Record<BudgetMetric, number>;
+
+const DEFAULT_WARNING_RATIO = 0.8;
+
+const BUDGET_LIMITS: Array<{
+  field: BudgetLimitField;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+}> = [
+  { field: "dailyTokens", period: "day", metric: "tokens" },
+  { field: "dailyUsd", period: "day", metric: "usd" },
+  { field: "monthlyTokens", period: "month", metric: "tokens" },
+  { field: "monthlyUsd", period: "month", metric: "usd" },
+  { field: "sessionTokens", period: "session", metric: "tokens" },
+  { field: "sessionUsd", period: "session", metric: "usd" }
+];
+
+// `null` clears a limit; omitted fields keep their current value.
+const budgetChangesValidator = v.object({
+  dailyTokens: v.optional(v.union(v.number(), v.null())),
+  monthlyTokens: v.optional(v.union(v.number(), v.null())),
+  dailyUsd: v.optional(v.union(v.number(), v.null())),
+  monthlyUsd: v.optional(v.union(v.number(), v.null())),
+  sessionTokens: v.optional(v.union(v.number(), v.null())),
+  sessionUsd: v.optional(v.union(v.number(), v.null())),
+  warningRatio: v.optional(v.union(v.number(), v.null()))
+});
+
+function getPeriodKeys(now: number) {
+  const day = new Date(now).toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+function getPeriodResets(now: number) {
+  const date = new Date(now);
+
+  return {
+    day: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1),
+    month: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+  };
+}
+
+async function getRollup(
+  ctx: QueryCtx,
+  tenantId: Id<"tenants">,
+  period: string
+): Promise<Doc<"usageRollups"> | null> {
+  return await ctx.db
+    .query("usageRollups")
+    .withIndex("by_tenant_period", (q) => q.eq("tenantId", tenantId).eq("period", period))
+    .unique();
+}
+
+function toUsageAmounts(
+  rollup: { promptTokens: number; completionTokens: number; costUsd: number } | null
+): UsageAmounts {
+  return {
+    tokens: (rollup?.promptTokens ?? 0) + (rollup?.completionTokens ?? 0),
+    usd: rollup?.costUsd ?? 0
+  };
+}
+
+/** Adds one reply's usage to the tenant's rollups for each period key (day and month). */
+export async function recordUsageRollups(
+  ctx: MutationCtx,
+  tenantId: Id<"tenants">,
+  periods: string[],
+  usage: { promptTokens: number; completionTokens: number; costUsd?: number },
+  now: number
+) {
+  for (const period of periods) {
+    const existing = await getRollup(ctx, tenantId, period);
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        promptTokens: existing.promptTokens + usage.promptTokens,
+        completionTokens: existing.completionTokens + usage.completionTokens,
+        costUsd: existing.costUsd + (usage.costUsd ?? 0),
+        updatedAt: now
+      });
+      continue;
+    }
+
+    await ctx.db.insert("usageRollups", {
+      tenantId,
+      period,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: usage.costUsd ?? 0,
+      updatedAt: now
+    });
+  }
+}
+
+// Session limits are only checked when a session is given; the admin view leaves them out.
+async function evaluateBudget(
+  ctx: QueryCtx,
+  tenant: Doc<"tenants">,
+  sessionId: string | undefined,
+  now: number
+) {
+  const budget = tenant.budget ?? {};
+  const keys = getPeriodKeys(now);
+  const resets = getPeriodResets(now);
+  const [dayRollup, monthRollup, conversation] = await Promise.all([
+    getRollup(ctx, tenant._id, keys.day),
+    getRollup(ctx, tenant._id, keys.month),
+    sessionId
+      ? ctx.db
+          .query("conversations")
+          .withIndex("by_tenant_session_id", (q) =>
+            q.eq("tenantId", tenant._id).eq("sessionId", sessionId)
+          )
+          .unique()
+      : null
+  ]);
+  const usage: Record<BudgetPeriod, UsageAmounts> = {
+    day: toUsageAmounts(dayRollup),
+    month: toUsageAmounts(monthRollup),
+    session: { tokens: conversation?.totalTokens ?? 0, usd: conversation?.costUsd ?? 0 }
+  };
+  const warningRatio = budget.warningRatio ?? DEFAULT_WARNING_RATIO;
+
+  const checks = BUDGET_LIMITS.flatMap(({ field, period, metric }) => {
+    const limit = budget[field];
+
+    if (limit === undefined || (period === "session" && !sessionId)) {
+      return [];
+    }
+
+    const used = usage[period][metric];
+    const state: "ok" | "warning" | "exhausted" =
+      used >= limit ? "exhausted" : used >= limit * warningRatio ? "warning" : "ok";
+
+    return [
+      { period, metric, limit, used, state, resetAt: period === "session" ? null : resets[period] }
+    ];
+  });
+
+  const state = checks.some((check) => check.state === "exhausted")
+    ? "exhausted"
+    : checks.some((check) => check.state === "warning")
+      ? "warning"
+      : "ok";
+
+  return { state, warningRatio, checks };
+}
+
+export const getBudgetStatus = query({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.optional(v.string()),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    return await evaluateBudget(ctx, tenant, args.sessionId, args.now);
+  }
+});
+
+export const getBudget = query({
+  args: {
+    tenantId: v.id("tenants"),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    return {
+      budget: tenant.budget ?? {},
+      status: await evaluateBudget(ctx, tenant, undefined, args.now)
+    };
+  }
+});
+
+export const updateBudget = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    changes: budgetChangesValidator,
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    const budget: Budget = { ...tenant.budget };
+
+    for (const [field, value] of Object.entries(args.changes) as Array<
+      [keyof Budget, number | null | undefined]
+    >) {
+      if (value === null) {
+        delete budget[field];
+      } else if (value !== undefined) {
+        budget[field] = value;
+      }
+    }
+
+    await ctx.db.patch(args.tenantId, { budget, updatedAt: args.now });
+    return budget;
+  }
+});
@@ -4,9 +4,18 @@ import { api } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
 
 type ChatArgs = {
+  tenantId: Id<"tenants">;
   sessionId: string;
   message: string;
   model?: string;
+  assistantId?: string;
+};
+
+type ChatAssistant = {
+  _id: Id<"assistants">;
+  systemPrompt: string;
+  model?: string;
+  temperature?: number;
 };
 
 type ChatHistoryMessage = {
@@ -14,16 +23,52 @@ type ChatHistoryMessage = {
   content: string;
 };
 
+type ChatHistory = {
+  summary: string | null;
+  messages: ChatHistoryMessage[];
+};
+
 type ChatResult = {
   conversationId: Id<"conversations">;
-  message: string;
+  message: string | null;
+  status: "ai" | "pending_human" | "human";
+};
+
+type ModelPrice = {
+  input: number;
+  output: number;
 };
 
+// Same format as the backend's MODEL_PRICES: USD per million tokens keyed by model, `*` as fallback.
+function calculateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  let prices: Record<string, ModelPrice>;
+
+  try {
+    prices = JSON.parse(process.env.MODEL_PRICES ?? "{}") as Record<string, ModelPrice>;
+  } catch {
+    return undefined;
+  }
+
+  const price = prices[model] ?? prices["*"];
+
+  if (typeof price?.input !== "number" || typeof price.output !== "number") {
+    return undefined;
+  }
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
 export const chat: unknown = action({
   args: {
+    tenantId: v.id("tenants"),
     sessionId: v.string(),
     message: v.string(),
-    model: v.optional(v.string())
+    model: v.optional(v.string()),
+    assistantId: v.optional(v.string())
   },
   handler: async (ctx, args: ChatArgs): Promise<ChatResult> => {
     const openAiApiKey = process.env.OPENAI_API_KEY;
@@ -32,24 +77,79 @@ export const chat: unknown = action({
       throw new Error("OPENAI_API_KEY is not configured for Convex actions");
     }
 
+    const assistant = args.assistantId
+      ? ((await ctx.runQuery(api.assistants.getAssistant, {
+          tenantId: args.tenantId,
+          assistantId: args.assistantId
+        })) as ChatAssistant | null)
+      : null;
+
+    if (args.assistantId && !assistant) {
+      throw new Error("Assistant not found");
+    }
+
     const now = Date.now();
-    const conversationId = (await ctx.runMutation(api.conversations.getOrCreateConversation, {
+    const budget = (await ctx.runQuery(api.budgets.getBudgetStatus, {
+      tenantId: args.tenantId,
+      sessionId: args.sessionId,
+      now
+    })) as { state: "ok" | "warning" | "exhausted" } | null;
+
+    if (budget?.state === "exhausted") {
+      throw new Error("Budget exhausted");
+    }
+
+    const session = (await ctx.runMutation(api.conversations.getOrCreateConversation, {
+      tenantId: args.tenantId,
       sessionId: args.sessionId,
+      assistantId: assistant?._id,
       now
-    })) as Id<"conversations">;
+    })) as { conversationId: Id<"conversations"> } | null;
+
+    if (!session) {
+      throw new Error("Forbidden");
+    }
+
+    const { conversationId } = session;
 
     await ctx.runMutation(api.conversations.addMessage, {
+      tenantId: args.tenantId,
       conversationId,
       role: "user",
       content: args.message,
       createdAt: now
     });
 
+    const conversation = (await ctx.runQuery(api.conversations.getConversationById, {
+      tenantId: args.tenantId,
+      conversationId
+    })) as { status?: "ai" | "pending_human" | "human" | "closed" } | null;
+
+    // A human agent owns the thread; the visitor's message is stored but the AI stays quiet.
+    if (conversation?.status === "human" || conversation?.status === "pending_human") {
+      return {
+        conversationId,
+        message: null,
+        status: conversation.status
+      };
+    }
+
+    if (conversation?.status === "closed") {
+      await ctx.runMutation(api.conversations.setConversationStatus, {
+        tenantId: args.tenantId,
+        conversationId,
+        status: "ai",
+        now
+      });
+    }
+
+    // The backend keeps the summary up to date; this path only reads it.
     const history = (await ctx.runQuery(api.conversations.getHistoryForModel, {
-      conversationId,
-      limit: 30
-    })) as ChatHistoryMessage[];
+      tenantId: args.tenantId,
+      conversationId
+    })) as ChatHistory;
 
+    const model = args.model ?? assistant?.model ?? process.env.OPENAI_MODEL ?? "gpt-4.1-mini";
     const openAiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
       method: "POST",
       headers: {
@@ -57,14 +157,25 @@ export const chat: unknown = action({
         "Content-Type": "application/json"
       },
       body: JSON.stringify({
-        model: args.model ?? process.env.OPENAI_MODEL ?? "gpt-4.1-mini",
+        model,
+        temperature: assistant?.temperature,
         messages: [
           {
             role: "system",
             content:
-              "You are a concise and helpful AI assistant embedded in a website chat widget."
+              assistant?.systemPrompt ??
+              process.env.SYSTEM_PROMPT ??
+              "You are a concise and helpful AI assistant embedded in a support chat widget."
           },
-          ...history.map((message: ChatHistoryMessage) => ({
+          ...(history.summary
+            ? [
+                {
+                  role: "system",
+                  content: `Summary of the earlier conversation:\n${history.summary}`
+                }
+              ]
+            : []),
+          ...history.messages.slice(-30).map((message: ChatHistoryMessage) => ({
             role: message.role,
             content: message.content
           }))
@@ -83,21 +194,39 @@ export const chat: unknown = action({
           content?: string;
         };
       }>;
+      usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+      };
     };
 
     const assistantMessage = completion.choices?.[0]?.message?.content?.trim();
     const content = assistantMessage || "I could not generate a response right now.";
 
     await ctx.runMutation(api.conversations.addMessage, {
+      tenantId: args.tenantId,
       conversationId,
       role: "assistant",
       content,
+      usage: completion.usage
+        ? {
+            model,
+            promptTokens: completion.usage.prompt_tokens ?? 0,
+            completionTokens: completion.usage.completion_tokens ?? 0,
+            costUsd: calculateCostUsd(
+              model,
+              completion.usage.prompt_tokens ?? 0,
+              completion.usage.completion_tokens ?? 0
+            )
+          }
+        : undefined,
       createdAt: Date.now()
     });
 
     return {
       conversationId,
-      message: content
+      message: content,
+      status: "ai"
     };
   }
 });
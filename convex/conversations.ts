@@ -1,102 +1,483 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { recordUsageRollups } from "./budgets";
+import { enqueueWebhookEvent } from "./webhooks";
 
-const roleValidator = v.union(v.literal("user"), v.literal("assistant"));
+const roleValidator = v.union(v.literal("user"), v.literal("assistant"), v.literal("agent"));
+
+const statusValidator = v.union(
+  v.literal("ai"),
+  v.literal("pending_human"),
+  v.literal("human"),
+  v.literal("closed")
+);
+
+const MAX_SESSION_PAGE_SIZE = 100;
+const MAX_CONVERSATION_PAGE_SIZE = 100;
+const MAX_TAGS = 20;
+
+const usageValidator = v.object({
+  model: v.string(),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  costUsd: v.optional(v.number())
+});
+
+// Conversation IDs come from URLs, so every lookup by ID also checks the tenant.
+// Accepts an unchecked ID from a request; a malformed one is simply not found.
+async function getTenantConversation(
+  ctx: QueryCtx,
+  tenantId: Id<"tenants">,
+  rawConversationId: string
+): Promise<Doc<"conversations"> | null> {
+  const conversationId = ctx.db.normalizeId("conversations", rawConversationId);
+
+  if (!conversationId) {
+    return null;
+  }
+
+  const conversation = await ctx.db.get(conversationId);
+  return conversation?.tenantId === tenantId ? conversation : null;
+}
+
+async function getSessionConversation(
+  ctx: QueryCtx,
+  tenantId: Id<"tenants">,
+  sessionId: string
+): Promise<Doc<"conversations"> | null> {
+  return await ctx.db
+    .query("conversations")
+    .withIndex("by_tenant_session_id", (q) => q.eq("tenantId", tenantId).eq("sessionId", sessionId))
+    .unique();
+}
+
+// Stores a usage event, adds it to the tenant's day and month rollups and to the conversation's
+// running totals.
+async function recordUsage(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  messageId: Id<"messages"> | undefined,
+  usage: Infer<typeof usageValidator>,
+  createdAt: number
+) {
+  const tenantId = conversation.tenantId as Id<"tenants">;
+  const day = new Date(createdAt).toISOString().slice(0, 10);
+
+  await ctx.db.insert("usageEvents", {
+    tenantId,
+    conversationId: conversation._id,
+    messageId,
+    ...usage,
+    day,
+    createdAt
+  });
+  await recordUsageRollups(ctx, tenantId, [day, day.slice(0, 7)], usage, createdAt);
+  await ctx.db.patch(conversation._id, {
+    totalTokens: (conversation.totalTokens ?? 0) + usage.promptTokens + usage.completionTokens,
+    costUsd: (conversation.costUsd ?? 0) + (usage.costUsd ?? 0)
+  });
+}
+
+// Shape shared with the widget; internal fields such as `conversationId` stay server-side.
+function toSessionMessage(message: Doc<"messages">) {
+  return {
+    _id: message._id,
+    role: message.role,
+    content: message.content,
+    authorName: message.authorName,
+    interrupted: message.interrupted,
+    createdAt: message.createdAt
+  };
+}
+
+// A verified user's thread needs that user; an anonymous one needs the secret it was created with.
+function canAccessConversation(
+  conversation: Doc<"conversations">,
+  userId: string | undefined,
+  sessionSecretHash: string | undefined
+): boolean {
+  if ((conversation.userId ?? null) !== (userId ?? null)) {
+    return false;
+  }
+
+  return (
+    conversation.userId !== undefined ||
+    conversation.sessionSecretHash === undefined ||
+    conversation.sessionSecretHash === sessionSecretHash
+  );
+}
+
+// True when the session has no conversation yet or the caller may access it.
+export const canAccessSession = query({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.string(),
+    userId: v.optional(v.string()),
+    sessionSecretHash: v.optional(v.string())
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getSessionConversation(ctx, args.tenantId, args.sessionId);
+
+    return (
+      !conversation || canAccessConversation(conversation, args.userId, args.sessionSecretHash)
+    );
+  }
+});
 
 export const getConversationBySessionId = query({
   args: {
+    tenantId: v.id("tenants"),
     sessionId: v.string()
   },
   handler: async (ctx, args) => {
-    return await ctx.db
-      .query("conversations")
-      .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
-      .unique();
+    return await getSessionConversation(ctx, args.tenantId, args.sessionId);
   }
 });
 
 export const getConversationById = query({
   args: {
+    tenantId: v.id("tenants"),
     conversationId: v.id("conversations")
   },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.conversationId);
+    return await getTenantConversation(ctx, args.tenantId, args.conversationId);
   }
 });
 
 export const getOrCreateConversation = mutation({
   args: {
+    tenantId: v.id("tenants"),
     sessionId: v.string(),
+    assistantId: v.optional(v.id("assistants")),
+    userId: v.optional(v.string()),
+    userEmail: v.optional(v.string()),
+    userName: v.optional(v.string()),
+    sessionSecretHash: v.optional(v.string()),
     now: v.number()
   },
+  // Null when the session belongs to another user or the secret does not match. Checked here
+  // rather than by the caller, so a concurrent request cannot create the thread in between.
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("conversations")
-      .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
-      .unique();
+    const existing = await getSessionConversation(ctx, args.tenantId, args.sessionId);
 
     if (existing) {
-      return existing._id;
+      if (!canAccessConversation(existing, args.userId, args.sessionSecretHash)) {
+        return null;
+      }
+
+      // Keep the profile fresh when the same verified user comes back with a new email or name.
+      if (
+        args.userId &&
+        existing.userId === args.userId &&
+        (existing.userEmail !== args.userEmail || existing.userName !== args.userName)
+      ) {
+        await ctx.db.patch(existing._id, { userEmail: args.userEmail, userName: args.userName });
+      }
+
+      return { conversationId: existing._id, created: false };
     }
 
-    return await ctx.db.insert("conversations", {
+    const conversationId = await ctx.db.insert("conversations", {
+      tenantId: args.tenantId,
       sessionId: args.sessionId,
+      assistantId: args.assistantId,
+      userId: args.userId,
+      userEmail: args.userEmail,
+      userName: args.userName,
+      // Verified users are identified by their token; the secret only protects anonymous threads.
+      sessionSecretHash: args.userId === undefined ? args.sessionSecretHash : undefined,
       createdAt: args.now,
       updatedAt: args.now,
       lastMessage: ""
     });
+
+    await enqueueWebhookEvent(
+      ctx,
+      args.tenantId,
+      "conversation.created",
+      {
+        conversationId,
+        sessionId: args.sessionId,
+        userId: args.userId ?? null,
+        userEmail: args.userEmail ?? null,
+        userName: args.userName ?? null,
+        createdAt: args.now
+      },
+      conversationId
+    );
+
+    return { conversationId, created: true };
   }
 });
 
 export const addMessage = mutation({
   args: {
+    tenantId: v.id("tenants"),
     conversationId: v.id("conversations"),
     role: roleValidator,
     content: v.string(),
+    authorName: v.optional(v.string()),
+    interrupted: v.optional(v.boolean()),
+    clientMessageId: v.optional(v.string()),
+    // Token usage for an assistant reply, recorded in the same transaction as the message.
+    usage: v.optional(usageValidator),
     createdAt: v.number()
   },
   handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    // Concurrent retries of one submission race here; the first insert wins and the rest get its ID.
+    if (args.clientMessageId !== undefined) {
+      const existing = await findClientMessage(
+        ctx,
+        args.conversationId,
+        args.clientMessageId,
+        args.role
+      );
+
+      if (existing) {
+        // A retry handled on another instance generated its own reply; it is dropped, but the
+        // tokens were still spent.
+        if (args.usage && args.role === "assistant") {
+          await recordUsage(ctx, conversation, undefined, args.usage, args.createdAt);
+        }
+
+        return existing._id;
+      }
+    }
+
     const messageId = await ctx.db.insert("messages", {
+      tenantId: args.tenantId,
       conversationId: args.conversationId,
       role: args.role,
       content: args.content,
+      authorName: args.authorName,
+      interrupted: args.interrupted,
+      clientMessageId: args.clientMessageId,
       createdAt: args.createdAt
     });
 
+    if (args.usage && args.role === "assistant") {
+      await recordUsage(ctx, conversation, messageId, args.usage, args.createdAt);
+    }
+
     await ctx.db.patch(args.conversationId, {
       updatedAt: args.createdAt,
       lastMessage: args.content.slice(0, 500)
     });
 
+    await enqueueWebhookEvent(
+      ctx,
+      args.tenantId,
+      "message.created",
+      {
+        conversationId: args.conversationId,
+        sessionId: conversation.sessionId,
+        messageId,
+        role: args.role,
+        content: args.content,
+        authorName: args.authorName ?? null,
+        createdAt: args.createdAt
+      },
+      args.conversationId
+    );
+
     return messageId;
   }
 });
 
+async function findClientMessage(
+  ctx: QueryCtx,
+  conversationId: Id<"conversations">,
+  clientMessageId: string,
+  role: Doc<"messages">["role"]
+): Promise<Doc<"messages"> | null> {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversation_client_message_id", (q) =>
+      q.eq("conversationId", conversationId).eq("clientMessageId", clientMessageId)
+    )
+    .collect();
+
+  return messages.find((message) => message.role === role) ?? null;
+}
+
+// The visitor message sent with `clientMessageId` and, once generated, the assistant reply to it.
+export const getClientMessageTurn = query({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.id("conversations"),
+    clientMessageId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      return null;
+    }
+
+    const [message, reply] = await Promise.all([
+      findClientMessage(ctx, args.conversationId, args.clientMessageId, "user"),
+      findClientMessage(ctx, args.conversationId, args.clientMessageId, "assistant")
+    ]);
+
+    return {
+      message: message && toSessionMessage(message),
+      reply: reply && toSessionMessage(reply)
+    };
+  }
+});
+
+function toConversationSummary(conversation: Doc<"conversations">) {
+  return {
+    _id: conversation._id,
+    _creationTime: conversation._creationTime,
+    sessionId: conversation.sessionId,
+    assistantId: conversation.assistantId,
+    userId: conversation.userId,
+    userEmail: conversation.userEmail,
+    userName: conversation.userName,
+    status: conversation.status ?? "ai",
+    tags: conversation.tags ?? [],
+    feedbackUp: conversation.feedbackUp ?? 0,
+    feedbackDown: conversation.feedbackDown ?? 0,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    lastMessage: conversation.lastMessage ?? ""
+  };
+}
+
+// Newest activity first, one page per call. Status, negative feedback and the `updatedAt` range are
+// applied while scanning; tags and search matches are checked per page, so those pages can come back
+// short (even empty) while `isDone` is still false.
 export const listConversations = query({
-  args: {},
-  handler: async (ctx) => {
-    const conversations = await ctx.db
+  args: {
+    tenantId: v.id("tenants"),
+    paginationOpts: paginationOptsValidator,
+    status: v.optional(statusValidator),
+    tag: v.optional(v.string()),
+    // Only conversations with at least one thumbs down on an assistant reply.
+    negativeFeedback: v.optional(v.boolean()),
+    // Inclusive lower and exclusive upper bound on `updatedAt`.
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    search: v.optional(v.string())
+  },
+  handler: async (ctx, args) => {
+    const { status, tag, negativeFeedback, from, to, search } = args;
+    const paginationOpts = {
+      ...args.paginationOpts,
+      numItems: Math.max(1, Math.min(args.paginationOpts.numItems, MAX_CONVERSATION_PAGE_SIZE))
+    };
+    const matches = (conversation: Doc<"conversations">) =>
+      (!status || (conversation.status ?? "ai") === status) &&
+      (!tag || (conversation.tags ?? []).includes(tag)) &&
+      (!negativeFeedback || (conversation.feedbackDown ?? 0) > 0) &&
+      (from === undefined || conversation.updatedAt >= from) &&
+      (to === undefined || conversation.updatedAt < to);
+
+    if (search) {
+      // Ranked by relevance; a page lists each conversation once, with its best matching message.
+      const result = await ctx.db
+        .query("messages")
+        .withSearchIndex("search_content", (q) =>
+          q.search("content", search).eq("tenantId", args.tenantId)
+        )
+        .paginate(paginationOpts);
+      const matchedContent = new Map<Id<"conversations">, string>();
+
+      for (const message of result.page) {
+        if (!matchedContent.has(message.conversationId)) {
+          matchedContent.set(message.conversationId, message.content.slice(0, 500));
+        }
+      }
+
+      const conversations = await Promise.all(
+        [...matchedContent.keys()].map((conversationId) =>
+          getTenantConversation(ctx, args.tenantId, conversationId)
+        )
+      );
+
+      return {
+        page: conversations
+          .filter(
+            (conversation): conversation is Doc<"conversations"> =>
+              conversation !== null && matches(conversation)
+          )
+          .map((conversation) => ({
+            ...toConversationSummary(conversation),
+            matchedContent: matchedContent.get(conversation._id)
+          })),
+        isDone: result.isDone,
+        continueCursor: result.continueCursor
+      };
+    }
+
+    const result = await ctx.db
       .query("conversations")
-      .withIndex("by_updated_at")
+      .withIndex("by_tenant_updated_at", (q) => {
+        const tenant = q.eq("tenantId", args.tenantId);
+        const lower = from === undefined ? tenant : tenant.gte("updatedAt", from);
+        return to === undefined ? lower : lower.lt("updatedAt", to);
+      })
       .order("desc")
-      .collect();
+      .filter((q) =>
+        status === undefined
+          ? true
+          : status === "ai"
+            ? q.or(q.eq(q.field("status"), "ai"), q.eq(q.field("status"), undefined))
+            : q.eq(q.field("status"), status)
+      )
+      .filter((q) => (negativeFeedback ? q.gt(q.field("feedbackDown"), 0) : true))
+      .paginate(paginationOpts);
+
+    return {
+      page: result.page.filter(matches).map(toConversationSummary),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor
+    };
+  }
+});
+
+export const setConversationTags = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.string(),
+    tags: v.array(v.string())
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      return null;
+    }
 
-    return conversations.map((conversation) => ({
-      _id: conversation._id,
-      _creationTime: conversation._creationTime,
-      sessionId: conversation.sessionId,
-      createdAt: conversation.createdAt,
-      updatedAt: conversation.updatedAt,
-      lastMessage: conversation.lastMessage ?? ""
-    }));
+    const tags = [
+      ...new Set(args.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+    ].slice(0, MAX_TAGS);
+
+    // Tagging is bookkeeping, not activity, so `updatedAt` and the list order stay as they are.
+    await ctx.db.patch(conversation._id, { tags });
+    return tags;
   }
 });
 
 export const listMessages = query({
   args: {
+    tenantId: v.id("tenants"),
     conversationId: v.id("conversations")
   },
   handler: async (ctx, args) => {
+    if (!(await getTenantConversation(ctx, args.tenantId, args.conversationId))) {
+      return [];
+    }
+
     return await ctx.db
       .query("messages")
       .withIndex("by_conversation_id_created_at", (q) =>
@@ -108,10 +489,11 @@ export const listMessages = query({
 
 export const getConversationThread = query({
   args: {
-    conversationId: v.id("conversations")
+    tenantId: v.id("tenants"),
+    conversationId: v.string()
   },
   handler: async (ctx, args) => {
-    const conversation = await ctx.db.get(args.conversationId);
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
 
     if (!conversation) {
       return null;
@@ -119,9 +501,7 @@ export const getConversationThread = query({
 
     const messages = await ctx.db
       .query("messages")
-      .withIndex("by_conversation_id_created_at", (q) =>
-        q.eq("conversationId", args.conversationId)
-      )
+      .withIndex("by_conversation_id_created_at", (q) => q.eq("conversationId", conversation._id))
       .collect();
 
     return {
@@ -131,28 +511,178 @@ export const getConversationThread = query({
   }
 });
 
+// Returns the running summary and the messages after it, oldest first. The backend decides how
+// many of those fit in the model's context and folds the rest into the summary.
 export const getHistoryForModel = query({
   args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.id("conversations")
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      return { summary: null, messages: [] };
+    }
+
+    const summarizedThrough = conversation.summarizedThrough ?? -1;
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_id_created_at", (q) =>
+        q.eq("conversationId", args.conversationId).gt("createdAt", summarizedThrough)
+      )
+      .collect();
+
+    return {
+      summary: conversation.summary ?? null,
+      // Human agent replies are part of the support side of the thread, so the model sees them
+      // as assistant turns when the AI takes over again.
+      messages: messages.map((message) => ({
+        role: message.role === "user" ? ("user" as const) : ("assistant" as const),
+        content: message.content,
+        createdAt: message.createdAt
+      }))
+    };
+  }
+});
+
+export const updateConversationSummary = mutation({
+  args: {
+    tenantId: v.id("tenants"),
     conversationId: v.id("conversations"),
-    limit: v.optional(v.number())
+    summary: v.string(),
+    summarizedThrough: v.number(),
+    usage: v.optional(usageValidator),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    // The usage happened either way, but a concurrent request that summarized further wins.
+    if (args.usage) {
+      await recordUsage(ctx, conversation, undefined, args.usage, args.now);
+    }
+
+    if ((conversation.summarizedThrough ?? -1) >= args.summarizedThrough) {
+      return false;
+    }
+
+    await ctx.db.patch(args.conversationId, {
+      summary: args.summary,
+      summarizedThrough: args.summarizedThrough
+    });
+    return true;
+  }
+});
+
+export const setConversationStatus = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.string(),
+    status: statusValidator,
+    now: v.number()
   },
   handler: async (ctx, args) => {
+    const conversation = await getTenantConversation(ctx, args.tenantId, args.conversationId);
+
+    if (!conversation) {
+      return null;
+    }
+
+    await ctx.db.patch(conversation._id, {
+      status: args.status,
+      updatedAt: args.now
+    });
+
+    if (args.status === "pending_human" && conversation.status !== "pending_human") {
+      await enqueueWebhookEvent(
+        ctx,
+        args.tenantId,
+        "handoff.requested",
+        {
+          conversationId: conversation._id,
+          sessionId: conversation.sessionId,
+          userId: conversation.userId ?? null,
+          lastMessage: conversation.lastMessage ?? "",
+          requestedAt: args.now
+        },
+        conversation._id
+      );
+    }
+
+    return args.status;
+  }
+});
+
+// Messages the widget has not seen yet, used to deliver human agent replies to the visitor.
+// Checks the caller on every run, so a subscription opened before the conversation existed gets
+// null rather than someone else's messages once it is created.
+export const getSessionMessagesSince = query({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.string(),
+    after: v.number(),
+    userId: v.optional(v.string()),
+    sessionSecretHash: v.optional(v.string())
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getSessionConversation(ctx, args.tenantId, args.sessionId);
+
+    if (!conversation) {
+      return { status: "ai" as const, messages: [] };
+    }
+
+    if (!canAccessConversation(conversation, args.userId, args.sessionSecretHash)) {
+      return null;
+    }
+
     const messages = await ctx.db
       .query("messages")
       .withIndex("by_conversation_id_created_at", (q) =>
-        q.eq("conversationId", args.conversationId)
+        q.eq("conversationId", conversation._id).gt("createdAt", args.after)
       )
       .collect();
 
-    const normalized = messages.map((message) => ({
-      role: message.role,
-      content: message.content
-    }));
+    return {
+      status: conversation.status ?? "ai",
+      messages: messages.map(toSessionMessage)
+    };
+  }
+});
 
-    if (!args.limit || args.limit <= 0 || normalized.length <= args.limit) {
-      return normalized;
+export const getSessionMessagesPage = query({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.string(),
+    cursor: v.optional(v.string()),
+    limit: v.number()
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getSessionConversation(ctx, args.tenantId, args.sessionId);
+
+    if (!conversation) {
+      return { status: "ai" as const, messages: [], hasMore: false, cursor: null };
     }
 
-    return normalized.slice(normalized.length - args.limit);
+    const limit = Math.max(1, Math.min(args.limit, MAX_SESSION_PAGE_SIZE));
+
+    // Newest first so the first page is the latest one, then back to oldest first. The cursor
+    // marks a position in the index, so messages sharing a timestamp are not skipped.
+    const page = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_id_created_at", (q) => q.eq("conversationId", conversation._id))
+      .order("desc")
+      .paginate({ numItems: limit, cursor: args.cursor ?? null });
+
+    return {
+      status: conversation.status ?? "ai",
+      messages: page.page.reverse().map(toSessionMessage),
+      hasMore: !page.isDone,
+      cursor: page.isDone ? null : page.continueCursor
+    };
   }
 });
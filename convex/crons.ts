@@ -0,0 +1,20 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.hourly(
+  "purge expired conversations",
+  { minuteUTC: 15 },
+  internal.retention.purgeExpiredConversations,
+  {}
+);
+
+crons.daily(
+  "purge old webhook deliveries",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.webhooks.purgeOldDeliveries,
+  {}
+);
+
+export default crons;
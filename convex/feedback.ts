@@ -0,0 +1,241 @@
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { action, internalQuery, mutation, query } from "./_generated/server";
+import { enqueueWebhookEvent } from "./webhooks";
+
+const ratingValidator = v.union(v.literal("up"), v.literal("down"));
+
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_NEGATIVE_ROWS = 50;
+const FEEDBACK_PAGE_SIZE = 1000;
+
+type FeedbackCounts = {
+  up: number;
+  down: number;
+  /** Share of thumbs up among all ratings, or null before the first rating. */
+  satisfaction: number | null;
+};
+
+type NegativeFeedback = {
+  conversationId: Id<"conversations">;
+  sessionId: string | null;
+  messageId: Id<"messages">;
+  content: string | null;
+  comment: string | null;
+  updatedAt: number;
+};
+
+type FeedbackSummary = {
+  from: number;
+  to: number;
+  totals: FeedbackCounts;
+  byDay: Array<FeedbackCounts & { day: string }>;
+  recentNegative: NegativeFeedback[];
+};
+
+function toCounts(up: number, down: number): FeedbackCounts {
+  return { up, down, satisfaction: up + down > 0 ? up / (up + down) : null };
+}
+
+// Visitors rate from the widget, so the message must be an assistant reply in their own session.
+export const submitFeedback = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.string(),
+    messageId: v.string(),
+    rating: ratingValidator,
+    comment: v.optional(v.string()),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    // The ID comes straight from the widget; a malformed one is treated like an unknown message.
+    const messageId = ctx.db.normalizeId("messages", args.messageId);
+    const message = messageId ? await ctx.db.get(messageId) : null;
+    const conversation = message ? await ctx.db.get(message.conversationId) : null;
+
+    if (
+      !message ||
+      !conversation ||
+      message.role !== "assistant" ||
+      message.tenantId !== args.tenantId ||
+      conversation.tenantId !== args.tenantId ||
+      conversation.sessionId !== args.sessionId
+    ) {
+      return null;
+    }
+
+    const comment = args.comment?.trim().slice(0, MAX_COMMENT_LENGTH) || undefined;
+    const existing = await ctx.db
+      .query("feedback")
+      .withIndex("by_message_id", (q) => q.eq("messageId", message._id))
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { rating: args.rating, comment, updatedAt: args.now });
+    } else {
+      await ctx.db.insert("feedback", {
+        tenantId: args.tenantId,
+        conversationId: conversation._id,
+        messageId: message._id,
+        rating: args.rating,
+        comment,
+        createdAt: args.now,
+        updatedAt: args.now
+      });
+    }
+
+    // Counters on the conversation let the admin list filter on negative ratings while scanning.
+    const delta = (rating: "up" | "down") =>
+      (args.rating === rating ? 1 : 0) - (existing?.rating === rating ? 1 : 0);
+    await ctx.db.patch(conversation._id, {
+      feedbackUp: (conversation.feedbackUp ?? 0) + delta("up"),
+      feedbackDown: (conversation.feedbackDown ?? 0) + delta("down")
+    });
+
+    await enqueueWebhookEvent(
+      ctx,
+      args.tenantId,
+      "feedback.submitted",
+      {
+        conversationId: conversation._id,
+        sessionId: conversation.sessionId,
+        messageId: message._id,
+        rating: args.rating,
+        comment: comment ?? null,
+        createdAt: args.now
+      },
+      conversation._id
+    );
+
+    return { messageId: message._id, rating: args.rating, comment: comment ?? null };
+  }
+});
+
+export const listConversationFeedback = query({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.id("conversations")
+  },
+  handler: async (ctx, args) => {
+    const feedback = await ctx.db
+      .query("feedback")
+      .withIndex("by_conversation_id", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+
+    return feedback
+      .filter((row) => row.tenantId === args.tenantId)
+      .map((row) => ({
+        messageId: row.messageId,
+        rating: row.rating,
+        comment: row.comment ?? null,
+        updatedAt: row.updatedAt
+      }));
+  }
+});
+
+export const listFeedbackPage = internalQuery({
+  args: {
+    tenantId: v.id("tenants"),
+    from: v.number(),
+    to: v.number(),
+    paginationOpts: paginationOptsValidator
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("feedback")
+      .withIndex("by_tenant_updated_at", (q) =>
+        q.eq("tenantId", args.tenantId).gte("updatedAt", args.from).lt("updatedAt", args.to)
+      )
+      .paginate(args.paginationOpts);
+  }
+});
+
+export const getNegativeFeedbackDetails = internalQuery({
+  args: {
+    feedbackIds: v.array(v.id("feedback"))
+  },
+  handler: async (ctx, args): Promise<NegativeFeedback[]> => {
+    const rows = await Promise.all(args.feedbackIds.map((feedbackId) => ctx.db.get(feedbackId)));
+
+    return await Promise.all(
+      rows
+        .flatMap((row) => (row ? [row] : []))
+        .map(async (row) => {
+          const [conversation, message] = await Promise.all([
+            ctx.db.get(row.conversationId),
+            ctx.db.get(row.messageId)
+          ]);
+
+          return {
+            conversationId: row.conversationId,
+            sessionId: conversation?.sessionId ?? null,
+            messageId: row.messageId,
+            content: message?.content.slice(0, 500) ?? null,
+            comment: row.comment ?? null,
+            updatedAt: row.updatedAt
+          };
+        })
+    );
+  }
+});
+
+/**
+ * Ratings given (or last changed) in [from, to), by UTC day, with the latest thumbs down first.
+ * Reads the ratings a page at a time, since a busy tenant's year does not fit in one query.
+ */
+export const getFeedbackSummary = action({
+  args: {
+    tenantId: v.id("tenants"),
+    from: v.number(),
+    to: v.number()
+  },
+  handler: async (ctx, args): Promise<FeedbackSummary> => {
+    const days = new Map<string, { up: number; down: number }>();
+    // Pages come oldest first, so the most recent thumbs down are the last ones kept.
+    const negativeIds: Array<Id<"feedback">> = [];
+    let up = 0;
+    let down = 0;
+    let cursor: string | null = null;
+
+    do {
+      const result = (await ctx.runQuery(internal.feedback.listFeedbackPage, {
+        tenantId: args.tenantId,
+        from: args.from,
+        to: args.to,
+        paginationOpts: { numItems: FEEDBACK_PAGE_SIZE, cursor }
+      })) as PaginationResult<Doc<"feedback">>;
+
+      for (const row of result.page) {
+        const day = new Date(row.updatedAt).toISOString().slice(0, 10);
+        const counts = days.get(day) ?? { up: 0, down: 0 };
+        counts[row.rating] += 1;
+        days.set(day, counts);
+
+        if (row.rating === "up") {
+          up += 1;
+        } else {
+          down += 1;
+          negativeIds.push(row._id);
+
+          if (negativeIds.length > MAX_NEGATIVE_ROWS) {
+            negativeIds.shift();
+          }
+        }
+      }
+
+      cursor = result.isDone ? null : result.continueCursor;
+    } while (cursor !== null);
+
+    const byDay = [...days]
+      .map(([day, counts]) => ({ day, ...toCounts(counts.up, counts.down) }))
+      .sort((left, right) => left.day.localeCompare(right.day));
+
+    const recentNegative = (await ctx.runQuery(internal.feedback.getNegativeFeedbackDetails, {
+      feedbackIds: negativeIds.reverse()
+    })) as NegativeFeedback[];
+
+    return { from: args.from, to: args.to, totals: toCounts(up, down), byDay, recentNegative };
+  }
+});
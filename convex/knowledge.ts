@@ -0,0 +1,181 @@
+import { v } from "convex/values";
+import { action, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// Chunks carry embeddings, so deletes go in modest batches to stay inside per-mutation limits.
+const CHUNK_DELETE_BATCH_SIZE = 200;
+
+const formatValidator = v.union(v.literal("markdown"), v.literal("html"), v.literal("text"));
+
+const chunkValidator = v.object({
+  chunkIndex: v.number(),
+  content: v.string(),
+  embedding: v.array(v.float64())
+});
+
+type KnowledgeSearchResult = {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+};
+
+export const createDocument = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    title: v.string(),
+    format: formatValidator,
+    sourceUrl: v.optional(v.string()),
+    chunkCount: v.number(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("documents", {
+      tenantId: args.tenantId,
+      title: args.title,
+      format: args.format,
+      sourceUrl: args.sourceUrl,
+      chunkCount: args.chunkCount,
+      createdAt: args.now
+    });
+  }
+});
+
+// Chunks are written in batches so large documents stay under the mutation argument size limit.
+export const addDocumentChunks = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    documentId: v.id("documents"),
+    chunks: v.array(chunkValidator)
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+
+    if (document?.tenantId !== args.tenantId) {
+      throw new Error("Document not found");
+    }
+
+    for (const chunk of args.chunks) {
+      await ctx.db.insert("documentChunks", {
+        tenantId: args.tenantId,
+        documentId: args.documentId,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        embedding: chunk.embedding
+      });
+    }
+  }
+});
+
+export const listDocuments = query({
+  args: {
+    tenantId: v.id("tenants")
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("documents")
+      .withIndex("by_tenant_created_at", (q) => q.eq("tenantId", args.tenantId))
+      .order("desc")
+      .collect();
+  }
+});
+
+export const deleteDocument = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    // Unchecked ID from the request; a malformed one is reported as not found.
+    documentId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const documentId = ctx.db.normalizeId("documents", args.documentId);
+
+    if (!documentId) {
+      return false;
+    }
+
+    const document = await ctx.db.get(documentId);
+
+    if (document?.tenantId !== args.tenantId) {
+      return false;
+    }
+
+    // Search skips chunks whose document is gone, so they stop matching right away and are
+    // deleted in scheduled batches, like erased conversation rows.
+    await ctx.db.delete(documentId);
+    await ctx.scheduler.runAfter(0, internal.knowledge.deleteDocumentChunks, { documentId });
+    return true;
+  }
+});
+
+export const deleteDocumentChunks = internalMutation({
+  args: {
+    documentId: v.id("documents")
+  },
+  handler: async (ctx, args) => {
+    const chunks = await ctx.db
+      .query("documentChunks")
+      .withIndex("by_document_id", (q) => q.eq("documentId", args.documentId))
+      .take(CHUNK_DELETE_BATCH_SIZE);
+
+    for (const chunk of chunks) {
+      await ctx.db.delete(chunk._id);
+    }
+
+    if (chunks.length === CHUNK_DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.knowledge.deleteDocumentChunks, args);
+    }
+  }
+});
+
+export const getChunksForSearch = internalQuery({
+  args: {
+    results: v.array(v.object({ chunkId: v.id("documentChunks"), score: v.number() }))
+  },
+  handler: async (ctx, args) => {
+    const chunks: KnowledgeSearchResult[] = [];
+
+    for (const result of args.results) {
+      const chunk = await ctx.db.get(result.chunkId);
+      const document = chunk ? await ctx.db.get(chunk.documentId) : null;
+
+      if (!chunk || !document) {
+        continue;
+      }
+
+      chunks.push({
+        chunkId: chunk._id,
+        documentId: document._id,
+        title: document.title,
+        sourceUrl: document.sourceUrl,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        score: result.score
+      });
+    }
+
+    return chunks;
+  }
+});
+
+// Vector search is only available in actions, so retrieval goes through this action.
+export const searchChunks = action({
+  args: {
+    tenantId: v.id("tenants"),
+    embedding: v.array(v.float64()),
+    limit: v.number()
+  },
+  handler: async (ctx, args): Promise<KnowledgeSearchResult[]> => {
+    const results = await ctx.vectorSearch("documentChunks", "by_embedding", {
+      vector: args.embedding,
+      limit: args.limit,
+      filter: (q) => q.eq("tenantId", args.tenantId)
+    });
+
+    return (await ctx.runQuery(internal.knowledge.getChunksForSearch, {
+      results: results.map((result) => ({ chunkId: result._id, score: result._score }))
+    })) as KnowledgeSearchResult[];
+  }
+});
@@ -0,0 +1,257 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Child rows deleted per mutation; larger threads are finished by scheduled follow-ups.
+const ERASE_BATCH_SIZE = 500;
+// Conversations deleted per mutation. Each one only deletes its own document and schedules the
+// deletion of its rows, so a run stays well inside Convex's per-transaction limits.
+const ERASE_CONVERSATIONS_PER_RUN = 50;
+
+function getDefaultRetentionDays(): number | null {
+  const days = Number(process.env.RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : null;
+}
+
+function getRetentionDays(tenant: Doc<"tenants">): number | null {
+  return tenant.retentionDays ?? getDefaultRetentionDays();
+}
+
+// Deletes up to one batch of a conversation's messages, usage events, ratings and webhook deliveries
+// (their payloads quote messages). Returns false when rows are left over.
+async function deleteConversationRows(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">
+): Promise<boolean> {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversation_id", (q) => q.eq("conversationId", conversationId))
+    .take(ERASE_BATCH_SIZE);
+  const usageEvents = await ctx.db
+    .query("usageEvents")
+    .withIndex("by_conversation_id", (q) => q.eq("conversationId", conversationId))
+    .take(ERASE_BATCH_SIZE - messages.length);
+  const feedback = await ctx.db
+    .query("feedback")
+    .withIndex("by_conversation_id", (q) => q.eq("conversationId", conversationId))
+    .take(ERASE_BATCH_SIZE - messages.length - usageEvents.length);
+  const deliveries = await ctx.db
+    .query("webhookDeliveries")
+    .withIndex("by_conversation_id", (q) => q.eq("conversationId", conversationId))
+    .take(ERASE_BATCH_SIZE - messages.length - usageEvents.length - feedback.length);
+  const rows = [...messages, ...usageEvents, ...feedback, ...deliveries];
+
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+
+  return rows.length < ERASE_BATCH_SIZE;
+}
+
+/**
+ * Removes a conversation and everything stored under it. The conversation itself is gone as soon
+ * as this returns; its messages and other rows are deleted in the background, one batch per
+ * mutation. Tenant usage rollups keep their totals since they hold no conversation data.
+ */
+export async function eraseConversation(ctx: MutationCtx, conversation: Doc<"conversations">) {
+  await ctx.db.delete(conversation._id);
+  await ctx.scheduler.runAfter(0, internal.retention.eraseConversationRows, {
+    conversationId: conversation._id
+  });
+}
+
+export const eraseConversationRows = internalMutation({
+  args: {
+    conversationId: v.id("conversations")
+  },
+  handler: async (ctx, args) => {
+    if (!(await deleteConversationRows(ctx, args.conversationId))) {
+      await ctx.scheduler.runAfter(0, internal.retention.eraseConversationRows, args);
+    }
+  }
+});
+
+export const deleteConversation = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const conversationId = ctx.db.normalizeId("conversations", args.conversationId);
+
+    if (!conversationId) {
+      return false;
+    }
+
+    const conversation = await ctx.db.get(conversationId);
+
+    if (conversation?.tenantId !== args.tenantId) {
+      return false;
+    }
+
+    await eraseConversation(ctx, conversation);
+    return true;
+  }
+});
+
+export const eraseSession = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    sessionId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db
+      .query("conversations")
+      .withIndex("by_tenant_session_id", (q) =>
+        q.eq("tenantId", args.tenantId).eq("sessionId", args.sessionId)
+      )
+      .unique();
+
+    if (!conversation) {
+      return false;
+    }
+
+    await eraseConversation(ctx, conversation);
+    return true;
+  }
+});
+
+// Erases one run's worth of the user's conversations and schedules the next run while more remain.
+async function eraseUserConversations(
+  ctx: MutationCtx,
+  tenantId: Id<"tenants">,
+  userId: string
+): Promise<{ erased: number; pending: boolean }> {
+  const conversations = await ctx.db
+    .query("conversations")
+    .withIndex("by_tenant_user_id", (q) => q.eq("tenantId", tenantId).eq("userId", userId))
+    .take(ERASE_CONVERSATIONS_PER_RUN);
+
+  for (const conversation of conversations) {
+    await eraseConversation(ctx, conversation);
+  }
+
+  const pending = conversations.length === ERASE_CONVERSATIONS_PER_RUN;
+
+  if (pending) {
+    await ctx.scheduler.runAfter(0, internal.retention.eraseUserConversationsBatch, {
+      tenantId,
+      userId
+    });
+  }
+
+  return { erased: conversations.length, pending };
+}
+
+// Every conversation a verified user had with the tenant, across sessions and devices. `pending`
+// is true when more conversations than one run can erase were found; the rest follow shortly.
+export const eraseUser = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    userId: v.string()
+  },
+  handler: async (ctx, args) => {
+    return await eraseUserConversations(ctx, args.tenantId, args.userId);
+  }
+});
+
+export const eraseUserConversationsBatch = internalMutation({
+  args: {
+    tenantId: v.id("tenants"),
+    userId: v.string()
+  },
+  handler: async (ctx, args) => {
+    await eraseUserConversations(ctx, args.tenantId, args.userId);
+  }
+});
+
+export const getRetention = query({
+  args: {
+    tenantId: v.id("tenants")
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    return {
+      retentionDays: tenant.retentionDays ?? null,
+      defaultRetentionDays: getDefaultRetentionDays(),
+      effectiveRetentionDays: getRetentionDays(tenant)
+    };
+  }
+});
+
+// `null` falls back to the deployment default.
+export const updateRetention = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    retentionDays: v.union(v.number(), v.null()),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    await ctx.db.patch(args.tenantId, {
+      retentionDays: args.retentionDays ?? undefined,
+      updatedAt: args.now
+    });
+
+    return {
+      retentionDays: args.retentionDays,
+      defaultRetentionDays: getDefaultRetentionDays(),
+      effectiveRetentionDays: args.retentionDays ?? getDefaultRetentionDays()
+    };
+  }
+});
+
+// Run by the hourly cron. Each run erases a bounded number of conversations and schedules another
+// run straight away while expired ones remain, so a large first purge never hits mutation limits.
+export const purgeExpiredConversations = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const tenants = await ctx.db.query("tenants").collect();
+    let purged = 0;
+
+    for (const tenant of tenants) {
+      const retentionDays = getRetentionDays(tenant);
+
+      if (retentionDays === null || purged >= ERASE_CONVERSATIONS_PER_RUN) {
+        continue;
+      }
+
+      const cutoff = now - retentionDays * DAY_MS;
+      const expired = await ctx.db
+        .query("conversations")
+        .withIndex("by_tenant_updated_at", (q) =>
+          q.eq("tenantId", tenant._id).lt("updatedAt", cutoff)
+        )
+        .take(ERASE_CONVERSATIONS_PER_RUN - purged);
+
+      for (const conversation of expired) {
+        await eraseConversation(ctx, conversation);
+      }
+
+      purged += expired.length;
+    }
+
+    if (purged >= ERASE_CONVERSATIONS_PER_RUN) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeExpiredConversations, {});
+    }
+
+    if (purged > 0) {
+      console.log(`Retention purge erased ${purged} conversation(s)`);
+    }
+
+    return purged;
+  }
+});
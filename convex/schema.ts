@@ -1,22 +1,203 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Spend limits per tenant; every field is optional and unset limits are not enforced. Session
+// limits apply to each conversation's lifetime. `warningRatio` (default 0.8) marks the soft limit.
+export const budgetValidator = v.object({
+  dailyTokens: v.optional(v.number()),
+  monthlyTokens: v.optional(v.number()),
+  dailyUsd: v.optional(v.number()),
+  monthlyUsd: v.optional(v.number()),
+  sessionTokens: v.optional(v.number()),
+  sessionUsd: v.optional(v.number()),
+  warningRatio: v.optional(v.number())
+});
+
 export default defineSchema({
+  // Only SHA-256 hashes of API keys are stored; the prefix helps tell keys apart after rotation.
+  tenants: defineTable({
+    name: v.string(),
+    slug: v.string(),
+    widgetKeyHash: v.string(),
+    widgetKeyPrefix: v.string(),
+    adminKeyHash: v.optional(v.string()),
+    adminKeyPrefix: v.optional(v.string()),
+    // Origins (e.g. `https://shop.example.com`, `https://*.example.com`) allowed to use the widget
+    // key. Empty or missing means any origin.
+    allowedOrigins: v.optional(v.array(v.string())),
+    budget: v.optional(budgetValidator),
+    // Conversations idle for longer are purged by the retention cron. Missing means the
+    // deployment's RETENTION_DAYS, or keep forever when that is unset too.
+    retentionDays: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  })
+    .index("by_slug", ["slug"])
+    .index("by_widget_key_hash", ["widgetKeyHash"])
+    .index("by_admin_key_hash", ["adminKeyHash"]),
+
+  // `tenantId` is optional only for rows written before tenants existed; the backend assigns them
+  // to the default tenant on startup.
+  assistants: defineTable({
+    tenantId: v.optional(v.id("tenants")),
+    name: v.string(),
+    systemPrompt: v.string(),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    welcomeMessage: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  }).index("by_tenant_updated_at", ["tenantId", "updatedAt"]),
+
   conversations: defineTable({
+    tenantId: v.optional(v.id("tenants")),
     sessionId: v.string(),
+    assistantId: v.optional(v.id("assistants")),
+    // Set when the visitor presented a verified user token; only that user can access the thread.
+    userId: v.optional(v.string()),
+    userEmail: v.optional(v.string()),
+    userName: v.optional(v.string()),
+    // SHA-256 of the secret an anonymous visitor got when the thread was created; it has to be
+    // presented to access the thread. Missing on anonymous threads created before secrets existed.
+    sessionSecretHash: v.optional(v.string()),
+    // Missing status means the AI is answering (conversations created before handoff support).
+    status: v.optional(
+      v.union(v.literal("ai"), v.literal("pending_human"), v.literal("human"), v.literal("closed"))
+    ),
     createdAt: v.number(),
     updatedAt: v.number(),
-    lastMessage: v.optional(v.string())
+    lastMessage: v.optional(v.string()),
+    // Free-form labels set by agents or the admin API, stored lowercase.
+    tags: v.optional(v.array(v.string())),
+    // Running usage totals for the per-session budget.
+    totalTokens: v.optional(v.number()),
+    costUsd: v.optional(v.number()),
+    // Running summary of the turns up to and including `summarizedThrough` (a message
+    // `createdAt`); only later messages are sent to the model verbatim.
+    summary: v.optional(v.string()),
+    summarizedThrough: v.optional(v.number()),
+    // Thumbs up and down currently given to this conversation's assistant replies.
+    feedbackUp: v.optional(v.number()),
+    feedbackDown: v.optional(v.number())
   })
-    .index("by_session_id", ["sessionId"])
-    .index("by_updated_at", ["updatedAt"]),
+    .index("by_tenant_session_id", ["tenantId", "sessionId"])
+    .index("by_tenant_updated_at", ["tenantId", "updatedAt"])
+    .index("by_tenant_user_id", ["tenantId", "userId"]),
 
   messages: defineTable({
+    tenantId: v.optional(v.id("tenants")),
     conversationId: v.id("conversations"),
-    role: v.union(v.literal("user"), v.literal("assistant")),
+    role: v.union(v.literal("user"), v.literal("assistant"), v.literal("agent")),
     content: v.string(),
+    authorName: v.optional(v.string()),
+    // Set on an assistant reply the visitor stopped; `content` is what had streamed by then.
+    interrupted: v.optional(v.boolean()),
+    // Idempotency key the client sent with a visitor message; the assistant reply to that message
+    // carries the same key, so a retried submission finds both instead of adding a turn.
+    clientMessageId: v.optional(v.string()),
     createdAt: v.number()
   })
+    .index("by_tenant_id", ["tenantId"])
     .index("by_conversation_id", ["conversationId"])
     .index("by_conversation_id_created_at", ["conversationId", "createdAt"])
+    .index("by_conversation_client_message_id", ["conversationId", "clientMessageId"])
+    .searchIndex("search_content", { searchField: "content", filterFields: ["tenantId"] }),
+
+  // One row per assistant reply or history summary with the tokens the provider reported; `day`
+  // is the UTC date (YYYY-MM-DD) used for daily rollups. `messageId` is missing for summaries and
+  // `costUsd` when the model had no price set.
+  usageEvents: defineTable({
+    tenantId: v.id("tenants"),
+    conversationId: v.id("conversations"),
+    messageId: v.optional(v.id("messages")),
+    model: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    costUsd: v.optional(v.number()),
+    day: v.string(),
+    createdAt: v.number()
+  })
+    .index("by_tenant_created_at", ["tenantId", "createdAt"])
+    .index("by_conversation_id", ["conversationId"]),
+
+  // Usage summed per tenant for each UTC day (`2025-01-31`) and month (`2025-01`), so budget
+  // checks read two rows instead of every usage event.
+  usageRollups: defineTable({
+    tenantId: v.id("tenants"),
+    period: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    costUsd: v.number(),
+    updatedAt: v.number()
+  }).index("by_tenant_period", ["tenantId", "period"]),
+
+  // One rating per assistant message; rating again replaces it.
+  feedback: defineTable({
+    tenantId: v.id("tenants"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    rating: v.union(v.literal("up"), v.literal("down")),
+    comment: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  })
+    .index("by_message_id", ["messageId"])
+    .index("by_conversation_id", ["conversationId"])
+    .index("by_tenant_updated_at", ["tenantId", "updatedAt"]),
+
+  // Outbound endpoints; `secret` signs each delivery, so unlike API keys it is kept in full.
+  webhooks: defineTable({
+    tenantId: v.id("tenants"),
+    url: v.string(),
+    events: v.array(v.string()),
+    description: v.optional(v.string()),
+    secret: v.string(),
+    enabled: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  }).index("by_tenant_id", ["tenantId"]),
+
+  // One row per event sent to a webhook. `payload` is the exact body, so retries are identical.
+  webhookDeliveries: defineTable({
+    tenantId: v.id("tenants"),
+    webhookId: v.id("webhooks"),
+    conversationId: v.optional(v.id("conversations")),
+    event: v.string(),
+    payload: v.string(),
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastStatusCode: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  })
+    .index("by_webhook_created_at", ["webhookId", "createdAt"])
+    .index("by_conversation_id", ["conversationId"])
+    .index("by_created_at", ["createdAt"]),
+
+  documents: defineTable({
+    tenantId: v.optional(v.id("tenants")),
+    title: v.string(),
+    format: v.union(v.literal("markdown"), v.literal("html"), v.literal("text")),
+    sourceUrl: v.optional(v.string()),
+    chunkCount: v.number(),
+    createdAt: v.number()
+  }).index("by_tenant_created_at", ["tenantId", "createdAt"]),
+
+  // Embeddings must match the vector index dimensions (OpenAI text-embedding-3-small by default).
+  documentChunks: defineTable({
+    tenantId: v.optional(v.id("tenants")),
+    documentId: v.id("documents"),
+    chunkIndex: v.number(),
+    content: v.string(),
+    embedding: v.array(v.float64())
+  })
+    .index("by_tenant_id", ["tenantId"])
+    .index("by_document_id", ["documentId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["tenantId"]
+    })
 });
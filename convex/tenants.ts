@@ -0,0 +1,260 @@
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+
+const keyKindValidator = v.union(v.literal("widget"), v.literal("admin"));
+
+const DEFAULT_TENANT_SLUG = "default";
+
+// Key hashes never leave Convex through the public queries.
+function toTenantSummary(tenant: Doc<"tenants">) {
+  return {
+    _id: tenant._id,
+    name: tenant.name,
+    slug: tenant.slug,
+    widgetKeyPrefix: tenant.widgetKeyPrefix,
+    adminKeyPrefix: tenant.adminKeyPrefix,
+    allowedOrigins: tenant.allowedOrigins ?? [],
+    createdAt: tenant.createdAt,
+    updatedAt: tenant.updatedAt
+  };
+}
+
+export const listTenants = query({
+  args: {},
+  handler: async (ctx) => {
+    const tenants = await ctx.db.query("tenants").collect();
+
+    return tenants.map(toTenantSummary).sort((left, right) => left.name.localeCompare(right.name));
+  }
+});
+
+// Subscribed to by the backend so origin changes apply to CORS and key checks without a restart.
+export const listAllowedOrigins = query({
+  args: {},
+  handler: async (ctx) => {
+    const tenants = await ctx.db.query("tenants").collect();
+
+    return tenants.map((tenant) => ({
+      tenantId: tenant._id,
+      allowedOrigins: tenant.allowedOrigins ?? []
+    }));
+  }
+});
+
+// Takes a plain string so untrusted IDs (e.g. a request header) get `null` back.
+export const getTenant = query({
+  args: {
+    tenantId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const tenantId = ctx.db.normalizeId("tenants", args.tenantId);
+    const tenant = tenantId ? await ctx.db.get(tenantId) : null;
+
+    return tenant ? toTenantSummary(tenant) : null;
+  }
+});
+
+export const getTenantByKeyHash = query({
+  args: {
+    kind: keyKindValidator,
+    keyHash: v.string()
+  },
+  handler: async (ctx, args) => {
+    const tenant =
+      args.kind === "widget"
+        ? await ctx.db
+            .query("tenants")
+            .withIndex("by_widget_key_hash", (q) => q.eq("widgetKeyHash", args.keyHash))
+            .unique()
+        : await ctx.db
+            .query("tenants")
+            .withIndex("by_admin_key_hash", (q) => q.eq("adminKeyHash", args.keyHash))
+            .unique();
+
+    return tenant ? toTenantSummary(tenant) : null;
+  }
+});
+
+export const createTenant = mutation({
+  args: {
+    name: v.string(),
+    slug: v.string(),
+    widgetKeyHash: v.string(),
+    widgetKeyPrefix: v.string(),
+    adminKeyHash: v.string(),
+    adminKeyPrefix: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("tenants")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+
+    if (existing) {
+      return null;
+    }
+
+    const { now, ...fields } = args;
+    const tenantId = await ctx.db.insert("tenants", {
+      ...fields,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return toTenantSummary((await ctx.db.get(tenantId)) as Doc<"tenants">);
+  }
+});
+
+// Replaces the key outright; requests using the old key stop resolving immediately.
+export const rotateTenantKey = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    kind: keyKindValidator,
+    keyHash: v.string(),
+    keyPrefix: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    await ctx.db.patch(
+      args.tenantId,
+      args.kind === "widget"
+        ? { widgetKeyHash: args.keyHash, widgetKeyPrefix: args.keyPrefix, updatedAt: args.now }
+        : { adminKeyHash: args.keyHash, adminKeyPrefix: args.keyPrefix, updatedAt: args.now }
+    );
+
+    return toTenantSummary((await ctx.db.get(args.tenantId)) as Doc<"tenants">);
+  }
+});
+
+export const addAllowedOrigin = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    origin: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    const allowedOrigins = tenant.allowedOrigins ?? [];
+
+    if (!allowedOrigins.includes(args.origin)) {
+      await ctx.db.patch(args.tenantId, {
+        allowedOrigins: [...allowedOrigins, args.origin],
+        updatedAt: args.now
+      });
+    }
+
+    return (await ctx.db.get(args.tenantId))?.allowedOrigins ?? [];
+  }
+});
+
+export const removeAllowedOrigin = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    origin: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const tenant = await ctx.db.get(args.tenantId);
+
+    if (!tenant) {
+      return null;
+    }
+
+    const allowedOrigins = (tenant.allowedOrigins ?? []).filter((origin) => origin !== args.origin);
+
+    await ctx.db.patch(args.tenantId, { allowedOrigins, updatedAt: args.now });
+    return allowedOrigins;
+  }
+});
+
+// The default tenant's keys come from WIDGET_API_KEY / ADMIN_API_KEY and are synced on startup.
+export const ensureDefaultTenant = mutation({
+  args: {
+    widgetKeyHash: v.string(),
+    widgetKeyPrefix: v.string(),
+    adminKeyHash: v.optional(v.string()),
+    adminKeyPrefix: v.optional(v.string()),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const { now, ...keys } = args;
+    const existing = await ctx.db
+      .query("tenants")
+      .withIndex("by_slug", (q) => q.eq("slug", DEFAULT_TENANT_SLUG))
+      .unique();
+
+    if (!existing) {
+      const tenantId = await ctx.db.insert("tenants", {
+        name: "Default",
+        slug: DEFAULT_TENANT_SLUG,
+        ...keys,
+        createdAt: now,
+        updatedAt: now
+      });
+
+      return toTenantSummary((await ctx.db.get(tenantId)) as Doc<"tenants">);
+    }
+
+    if (
+      existing.widgetKeyHash !== keys.widgetKeyHash ||
+      existing.adminKeyHash !== keys.adminKeyHash
+    ) {
+      await ctx.db.patch(existing._id, { ...keys, updatedAt: now });
+    }
+
+    return toTenantSummary((await ctx.db.get(existing._id)) as Doc<"tenants">);
+  }
+});
+
+// Moves rows written before tenants existed into `tenantId`, one batch per table per call.
+// Returns how many rows were updated; callers repeat until it returns 0.
+export const assignUntenantedRows = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    limit: v.number()
+  },
+  handler: async (ctx, args) => {
+    const { tenantId, limit } = args;
+    const rows = [
+      ...(await ctx.db
+        .query("conversations")
+        .withIndex("by_tenant_updated_at", (q) => q.eq("tenantId", undefined))
+        .take(limit)),
+      ...(await ctx.db
+        .query("messages")
+        .withIndex("by_tenant_id", (q) => q.eq("tenantId", undefined))
+        .take(limit)),
+      ...(await ctx.db
+        .query("assistants")
+        .withIndex("by_tenant_updated_at", (q) => q.eq("tenantId", undefined))
+        .take(limit)),
+      ...(await ctx.db
+        .query("documents")
+        .withIndex("by_tenant_created_at", (q) => q.eq("tenantId", undefined))
+        .take(limit)),
+      ...(await ctx.db
+        .query("documentChunks")
+        .withIndex("by_tenant_id", (q) => q.eq("tenantId", undefined))
+        .take(limit))
+    ];
+
+    for (const row of rows) {
+      await ctx.db.patch(row._id, { tenantId });
+    }
+
+    return rows.length;
+  }
+});
@@ -0,0 +1,181 @@
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { action, internalQuery, query } from "./_generated/server";
+
+const MAX_CONVERSATION_ROWS = 50;
+const EVENTS_PAGE_SIZE = 1000;
+
+type UsageTotals = {
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  // Replies whose model had no configured price, so `costUsd` undercounts them.
+  unpricedReplies: number;
+};
+
+type UsageSummary = {
+  from: number;
+  to: number;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<
+    UsageTotals & { conversationId: Id<"conversations">; sessionId: string | null }
+  >;
+};
+
+function emptyTotals(): UsageTotals {
+  return {
+    replies: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedReplies: 0
+  };
+}
+
+function addEvent(totals: UsageTotals, event: Doc<"usageEvents">) {
+  totals.replies += 1;
+  totals.promptTokens += event.promptTokens;
+  totals.completionTokens += event.completionTokens;
+  totals.totalTokens += event.promptTokens + event.completionTokens;
+
+  if (event.costUsd === undefined) {
+    totals.unpricedReplies += 1;
+  } else {
+    totals.costUsd += event.costUsd;
+  }
+}
+
+function addToGroup<K>(groups: Map<K, UsageTotals>, key: K, event: Doc<"usageEvents">) {
+  const totals = groups.get(key) ?? emptyTotals();
+  addEvent(totals, event);
+  groups.set(key, totals);
+}
+
+export const listUsageEventsPage = internalQuery({
+  args: {
+    tenantId: v.id("tenants"),
+    from: v.number(),
+    to: v.number(),
+    paginationOpts: paginationOptsValidator
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("usageEvents")
+      .withIndex("by_tenant_created_at", (q) =>
+        q.eq("tenantId", args.tenantId).gte("createdAt", args.from).lt("createdAt", args.to)
+      )
+      .paginate(args.paginationOpts);
+  }
+});
+
+export const getConversationSessionIds = internalQuery({
+  args: {
+    conversationIds: v.array(v.id("conversations"))
+  },
+  handler: async (ctx, args) => {
+    return await Promise.all(
+      args.conversationIds.map(
+        async (conversationId) => (await ctx.db.get(conversationId))?.sessionId ?? null
+      )
+    );
+  }
+});
+
+/**
+ * Aggregates usage in [from, to) by UTC day, model and conversation (the most expensive first).
+ * A year of events does not fit in one query, so this action reads them a page at a time.
+ */
+export const getUsageSummary = action({
+  args: {
+    tenantId: v.id("tenants"),
+    from: v.number(),
+    to: v.number()
+  },
+  handler: async (ctx, args): Promise<UsageSummary> => {
+    const totals = emptyTotals();
+    const days = new Map<string, UsageTotals>();
+    const models = new Map<string, UsageTotals>();
+    const conversations = new Map<Id<"conversations">, UsageTotals>();
+    let cursor: string | null = null;
+
+    do {
+      const result = (await ctx.runQuery(internal.usage.listUsageEventsPage, {
+        tenantId: args.tenantId,
+        from: args.from,
+        to: args.to,
+        paginationOpts: { numItems: EVENTS_PAGE_SIZE, cursor }
+      })) as PaginationResult<Doc<"usageEvents">>;
+
+      for (const event of result.page) {
+        addEvent(totals, event);
+        addToGroup(days, event.day, event);
+        addToGroup(models, event.model, event);
+        addToGroup(conversations, event.conversationId, event);
+      }
+
+      cursor = result.isDone ? null : result.continueCursor;
+    } while (cursor !== null);
+
+    const byDay = [...days]
+      .map(([day, dayTotals]) => ({ day, ...dayTotals }))
+      .sort((left, right) => left.day.localeCompare(right.day));
+
+    const byModel = [...models]
+      .map(([model, modelTotals]) => ({ model, ...modelTotals }))
+      .sort((left, right) => right.costUsd - left.costUsd || right.totalTokens - left.totalTokens);
+
+    const topConversations = [...conversations]
+      .sort(
+        ([, left], [, right]) =>
+          right.costUsd - left.costUsd || right.totalTokens - left.totalTokens
+      )
+      .slice(0, MAX_CONVERSATION_ROWS);
+
+    const sessionIds = (await ctx.runQuery(internal.usage.getConversationSessionIds, {
+      conversationIds: topConversations.map(([conversationId]) => conversationId)
+    })) as Array<string | null>;
+
+    const byConversation = topConversations.map(([conversationId, conversationTotals], index) => ({
+      conversationId,
+      sessionId: sessionIds[index],
+      ...conversationTotals
+    }));
+
+    return { from: args.from, to: args.to, totals, byDay, byModel, byConversation };
+  }
+});
+
+export const getConversationUsage = query({
+  args: {
+    tenantId: v.id("tenants"),
+    conversationId: v.string()
+  },
+  handler: async (ctx, args) => {
+    // Null for a malformed ID or another tenant's conversation, so the caller can answer 404.
+    const conversationId = ctx.db.normalizeId("conversations", args.conversationId);
+    const conversation = conversationId ? await ctx.db.get(conversationId) : null;
+
+    if (!conversation || conversation.tenantId !== args.tenantId) {
+      return null;
+    }
+
+    const events = await ctx.db
+      .query("usageEvents")
+      .withIndex("by_conversation_id", (q) => q.eq("conversationId", conversation._id))
+      .collect();
+    const totals = emptyTotals();
+
+    for (const event of events) {
+      addEvent(totals, event);
+    }
+
+    return totals;
+  }
+});
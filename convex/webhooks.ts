@@ -0,0 +1,416 @@
+import { v } from "convex/values";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "shared/webhooks";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx
+} from "./_generated/server";
+
+const eventValidator = v.union(...WEBHOOK_EVENTS.map((event) => v.literal(event)));
+
+// Attempt n waits RETRY_BASE_DELAY_MS * 2^(n-1): 30 s, 1 min, 2 min, ... about 1 h before the last.
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ERROR_LENGTH = 500;
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 500;
+const MAX_DELIVERY_PAGE_SIZE = 100;
+
+// The secret is only returned by createWebhook; listings never include it.
+function toWebhookSummary(webhook: Doc<"webhooks">) {
+  return {
+    _id: webhook._id,
+    url: webhook.url,
+    events: webhook.events,
+    description: webhook.description,
+    enabled: webhook.enabled,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt
+  };
+}
+
+// Takes the ID as sent to the admin API; a malformed one is not found rather than an error.
+async function getTenantWebhook(
+  ctx: QueryCtx,
+  tenantId: Id<"tenants">,
+  rawWebhookId: string
+): Promise<Doc<"webhooks"> | null> {
+  const webhookId = ctx.db.normalizeId("webhooks", rawWebhookId);
+
+  if (!webhookId) {
+    return null;
+  }
+
+  const webhook = await ctx.db.get(webhookId);
+  return webhook?.tenantId === tenantId ? webhook : null;
+}
+
+/**
+ * Queues `event` for every enabled webhook of the tenant that subscribes to it. Called inside the
+ * mutation that made the change, so an event is only sent when that change was committed.
+ */
+export async function enqueueWebhookEvent(
+  ctx: MutationCtx,
+  tenantId: Id<"tenants">,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  conversationId?: Id<"conversations">
+) {
+  const webhooks = await ctx.db
+    .query("webhooks")
+    .withIndex("by_tenant_id", (q) => q.eq("tenantId", tenantId))
+    .collect();
+  const subscribed = webhooks.filter(
+    (webhook) => webhook.enabled && webhook.events.includes(event)
+  );
+
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const payload = JSON.stringify({ event, createdAt: new Date(now).toISOString(), data });
+
+  for (const webhook of subscribed) {
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      tenantId,
+      webhookId: webhook._id,
+      conversationId,
+      event,
+      payload,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliverWebhook, { deliveryId });
+  }
+}
+
+async function signPayload(secret: string, timestamp: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${payload}`)
+  );
+
+  return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export const getDeliveryForSend = internalQuery({
+  args: {
+    deliveryId: v.id("webhookDeliveries")
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+
+    if (!delivery || delivery.status !== "pending") {
+      return null;
+    }
+
+    return { delivery, webhook: await ctx.db.get(delivery.webhookId) };
+  }
+});
+
+export const deliverWebhook = internalAction({
+  args: {
+    deliveryId: v.id("webhookDeliveries")
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const target = await ctx.runQuery(internal.webhooks.getDeliveryForSend, args);
+
+    if (!target) {
+      return;
+    }
+
+    const { delivery, webhook } = target;
+
+    // A webhook disabled or deleted after the event was queued drops its pending deliveries.
+    if (!webhook?.enabled) {
+      await ctx.runMutation(internal.webhooks.recordDeliveryAttempt, {
+        deliveryId: args.deliveryId,
+        ok: false,
+        error: webhook ? "Webhook disabled" : "Webhook deleted",
+        retry: false
+      });
+      return;
+    }
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "open-chat-webhooks/1",
+          "X-Webhook-Id": delivery._id,
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": `sha256=${await signPayload(
+            webhook.secret,
+            timestamp,
+            delivery.payload
+          )}`
+        },
+        body: delivery.payload,
+        signal: controller.signal
+      });
+
+      statusCode = response.status;
+
+      if (!response.ok) {
+        error = `HTTP ${response.status}: ${(await response.text()).slice(0, MAX_ERROR_LENGTH)}`;
+      }
+    } catch (caught) {
+      error = controller.signal.aborted
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS} ms`
+        : caught instanceof Error
+          ? caught.message
+          : String(caught);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    await ctx.runMutation(internal.webhooks.recordDeliveryAttempt, {
+      deliveryId: args.deliveryId,
+      ok: error === undefined,
+      statusCode,
+      error: error?.slice(0, MAX_ERROR_LENGTH),
+      retry: true
+    });
+  }
+});
+
+export const recordDeliveryAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    retry: v.boolean()
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+
+    if (!delivery) {
+      return;
+    }
+
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+    const retryAt =
+      !args.ok && args.retry && attempts < MAX_ATTEMPTS
+        ? now + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+        : undefined;
+
+    await ctx.db.patch(args.deliveryId, {
+      status: args.ok ? "succeeded" : retryAt ? "pending" : "failed",
+      attempts,
+      nextAttemptAt: retryAt,
+      lastStatusCode: args.statusCode,
+      lastError: args.error,
+      updatedAt: now
+    });
+
+    if (retryAt) {
+      await ctx.scheduler.runAt(retryAt, internal.webhooks.deliverWebhook, {
+        deliveryId: args.deliveryId
+      });
+    }
+  }
+});
+
+export const listWebhooks = query({
+  args: {
+    tenantId: v.id("tenants")
+  },
+  handler: async (ctx, args) => {
+    const webhooks = await ctx.db
+      .query("webhooks")
+      .withIndex("by_tenant_id", (q) => q.eq("tenantId", args.tenantId))
+      .collect();
+
+    return webhooks.map(toWebhookSummary);
+  }
+});
+
+export const createWebhook = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    url: v.string(),
+    events: v.array(eventValidator),
+    description: v.optional(v.string()),
+    secret: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const webhookId = await ctx.db.insert("webhooks", {
+      tenantId: args.tenantId,
+      url: args.url,
+      events: args.events,
+      description: args.description,
+      secret: args.secret,
+      enabled: true,
+      createdAt: args.now,
+      updatedAt: args.now
+    });
+
+    return toWebhookSummary((await ctx.db.get(webhookId)) as Doc<"webhooks">);
+  }
+});
+
+export const updateWebhook = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    webhookId: v.string(),
+    changes: v.object({
+      url: v.optional(v.string()),
+      events: v.optional(v.array(eventValidator)),
+      description: v.optional(v.string()),
+      enabled: v.optional(v.boolean())
+    }),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const webhook = await getTenantWebhook(ctx, args.tenantId, args.webhookId);
+
+    if (!webhook) {
+      return null;
+    }
+
+    await ctx.db.patch(webhook._id, { ...args.changes, updatedAt: args.now });
+    return toWebhookSummary((await ctx.db.get(webhook._id)) as Doc<"webhooks">);
+  }
+});
+
+// Pending deliveries find the webhook gone and are marked failed; the log is purged with age.
+export const deleteWebhook = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    webhookId: v.string()
+  },
+  handler: async (ctx, args) => {
+    const webhook = await getTenantWebhook(ctx, args.tenantId, args.webhookId);
+
+    if (!webhook) {
+      return false;
+    }
+
+    await ctx.db.delete(webhook._id);
+    return true;
+  }
+});
+
+export const listDeliveries = query({
+  args: {
+    tenantId: v.id("tenants"),
+    webhookId: v.string(),
+    limit: v.number()
+  },
+  handler: async (ctx, args) => {
+    const webhook = await getTenantWebhook(ctx, args.tenantId, args.webhookId);
+
+    if (!webhook) {
+      return null;
+    }
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhook_created_at", (q) => q.eq("webhookId", webhook._id))
+      .order("desc")
+      .take(Math.max(1, Math.min(args.limit, MAX_DELIVERY_PAGE_SIZE)));
+
+    return deliveries.map((delivery) => ({
+      _id: delivery._id,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+      lastStatusCode: delivery.lastStatusCode ?? null,
+      lastError: delivery.lastError ?? null,
+      createdAt: delivery.createdAt,
+      updatedAt: delivery.updatedAt
+    }));
+  }
+});
+
+// Sends a failed delivery again with a fresh set of attempts.
+export const retryDelivery = mutation({
+  args: {
+    tenantId: v.id("tenants"),
+    webhookId: v.string(),
+    deliveryId: v.string(),
+    now: v.number()
+  },
+  handler: async (ctx, args) => {
+    const deliveryId = ctx.db.normalizeId("webhookDeliveries", args.deliveryId);
+    const delivery = deliveryId ? await ctx.db.get(deliveryId) : null;
+    const webhook = await getTenantWebhook(ctx, args.tenantId, args.webhookId);
+
+    if (
+      !delivery ||
+      !webhook ||
+      delivery.tenantId !== args.tenantId ||
+      delivery.webhookId !== webhook._id
+    ) {
+      return null;
+    }
+
+    if (delivery.status === "pending") {
+      return "pending" as const;
+    }
+
+    await ctx.db.patch(delivery._id, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: args.now,
+      updatedAt: args.now
+    });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliverWebhook, {
+      deliveryId: delivery._id
+    });
+
+    return "pending" as const;
+  }
+});
+
+// Run daily by the cron; payloads include message text, so the log is not kept forever.
+export const purgeOldDeliveries = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_created_at", (q) => q.lt("createdAt", Date.now() - DELIVERY_LOG_RETENTION_MS))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const delivery of expired) {
+      await ctx.db.delete(delivery._id);
+    }
+
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.webhooks.purgeOldDeliveries, {});
+    }
+  }
+});
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "../../../../../lib/auth";
+import { getConversationThread } from "../../../../../lib/convex";
+import {
+  EXPORT_FORMATS,
+  formatConversationExport,
+  getExportFileName,
+  type ExportFormat
+} from "shared/export";
+import { getSelectedTenant } from "../../../../../lib/tenant";
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]).default("md")
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get("format");
+  const parsed = exportSchema.safeParse({ format: format ?? undefined });
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  try {
+    const { tenant } = await getSelectedTenant();
+    const thread = tenant ? await getConversationThread(tenant._id, id) : null;
+
+    if (!thread) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const file = formatConversationExport(thread, parsed.data.format);
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${getExportFileName(thread, file.extension)}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Exporting conversation failed", error);
+    return NextResponse.json({ error: "Could not export conversation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "../../../../../lib/auth";
+import { addAgentMessage } from "../../../../../lib/convex";
+import { getSelectedTenant } from "../../../../../lib/tenant";
+
+const replySchema = z.object({
+  content: z.string().trim().min(1).max(4000)
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const formData = await request.formData();
+  const parsed = replySchema.safeParse({ content: formData.get("content") });
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Reply cannot be empty" }, { status: 400 });
+  }
+
+  try {
+    const { tenant } = await getSelectedTenant();
+
+    if (!tenant) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    await addAgentMessage(tenant._id, id, parsed.data.content);
+  } catch (error) {
+    console.error("Sending agent reply failed", error);
+    return NextResponse.json({ error: "Could not send reply" }, { status: 500 });
+  }
+
+  return NextResponse.redirect(new URL(`/conversations/${id}`, request.url), 303);
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "../../../../../lib/auth";
+import { setConversationStatus } from "../../../../../lib/convex";
+import { getSelectedTenant } from "../../../../../lib/tenant";
+
+const statusSchema = z.object({
+  status: z.enum(["ai", "pending_human", "human", "closed"])
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const formData = await request.formData();
+  const parsed = statusSchema.safeParse({ status: formData.get("status") });
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const { tenant } = await getSelectedTenant();
+    const status = tenant ? await setConversationStatus(tenant._id, id, parsed.data.status) : null;
+
+    if (!status) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+  } catch (error) {
+    console.error("Updating conversation status failed", error);
+    return NextResponse.json({ error: "Could not update conversation" }, { status: 500 });
+  }
+
+  return NextResponse.redirect(new URL(`/conversations/${id}`, request.url), 303);
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "../../../../../lib/auth";
+import { setConversationTags } from "../../../../../lib/convex";
+import { getSelectedTenant } from "../../../../../lib/tenant";
+
+// Comma-separated in the form, e.g. "billing, refund".
+const tagsSchema = z.object({
+  tags: z
+    .string()
+    .max(1000)
+    .transform((value) =>
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string().max(40)).max(20))
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const formData = await request.formData();
+  const parsed = tagsSchema.safeParse({ tags: formData.get("tags") ?? "" });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Use up to 20 comma-separated tags of at most 40 characters" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { tenant } = await getSelectedTenant();
+    const tags = tenant ? await setConversationTags(tenant._id, id, parsed.data.tags) : null;
+
+    if (!tags) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+  } catch (error) {
+    console.error("Updating conversation tags failed", error);
+    return NextResponse.json({ error: "Could not update conversation" }, { status: 500 });
+  }
+
+  return NextResponse.redirect(new URL(`/conversations/${id}`, request.url), 303);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthenticated } from "../../../lib/auth";
+import { listTenants } from "../../../lib/convex";
+import { attachTenantCookie } from "../../../lib/tenant";
+
+const tenantSchema = z.object({
+  tenantId: z.string().min(1).max(128)
+});
+
+export async function POST(request: Request) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const parsed = tenantSchema.safeParse({ tenantId: formData.get("tenantId") });
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid tenant" }, { status: 400 });
+  }
+
+  try {
+    const tenants = await listTenants();
+
+    if (!tenants.some((tenant) => tenant._id === parsed.data.tenantId)) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+  } catch (error) {
+    console.error("Switching tenant failed", error);
+    return NextResponse.json({ error: "Could not switch tenant" }, { status: 500 });
+  }
+
+  // Conversation IDs belong to a single tenant, so switching always goes back to the list.
+  const response = NextResponse.redirect(new URL("/", request.url), 303);
+  attachTenantCookie(response, parsed.data.tenantId);
+  return response;
+}
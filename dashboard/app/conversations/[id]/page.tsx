@@ -1,7 +1,15 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { Markdown } from "../../../components/markdown";
 import { requireAuth } from "../../../lib/auth";
-import { getConversationThread } from "../../../lib/convex";
+import {
+  getConversationThread,
+  getConversationUsage,
+  listConversationFeedback,
+  type ConversationStatus,
+  type UsageTotals
+} from "../../../lib/convex";
+import { getSelectedTenant } from "../../../lib/tenant";
 
 function formatDate(timestamp: number): string {
   return new Intl.DateTimeFormat("en-US", {
@@ -10,6 +18,29 @@ function formatDate(timestamp: number): string {
   }).format(new Date(timestamp));
 }
 
+function formatUsage(usage: UsageTotals): string {
+  const tokens = `${new Intl.NumberFormat("en-US").format(usage.totalTokens)} tokens`;
+
+  if (usage.costUsd === 0) {
+    return tokens;
+  }
+
+  return `${tokens} · $${usage.costUsd.toFixed(4)}`;
+}
+
+const STATUS_LABELS: Record<ConversationStatus, string> = {
+  ai: "AI",
+  pending_human: "Waiting for agent",
+  human: "Agent",
+  closed: "Closed"
+};
+
+const ROLE_LABELS = {
+  user: "User",
+  assistant: "Assistant",
+  agent: "Agent"
+} as const;
+
 type ConversationPageProps = {
   params: Promise<{ id: string }>;
 };
@@ -18,12 +49,21 @@ export default async function ConversationPage({ params }: ConversationPageProps
   await requireAuth();
   const { id } = await params;
 
-  const thread = await getConversationThread(id);
+  const { tenant } = await getSelectedTenant();
+  const thread = tenant ? await getConversationThread(tenant._id, id) : null;
 
-  if (!thread) {
+  if (!tenant || !thread) {
     notFound();
   }
 
+  const [usage, feedback] = await Promise.all([
+    getConversationUsage(tenant._id, id),
+    listConversationFeedback(tenant._id, id)
+  ]);
+  const feedbackByMessage = new Map(feedback.map((row) => [row.messageId, row]));
+
+  const status = thread.conversation.status ?? "ai";
+
   return (
     <main className="page-wrap">
       <div className="headline">
@@ -32,7 +72,24 @@ export default async function ConversationPage({ params }: ConversationPageProps
             ← Back to conversations
           </Link>
           <h1>Session {thread.conversation.sessionId}</h1>
-          <span className="subtle">Updated {formatDate(thread.conversation.updatedAt)}</span>
+          <span className="subtle">
+            <span className={`status-badge ${status}`}>{STATUS_LABELS[status]}</span> Updated{" "}
+            {formatDate(thread.conversation.updatedAt)}
+            {usage && usage.replies > 0 ? ` · ${formatUsage(usage)}` : null}
+            {(thread.conversation.tags ?? []).map((tag) => (
+              <span key={tag} className="tag-badge">
+                {tag}
+              </span>
+            ))}
+          </span>
+          {thread.conversation.userId ? (
+            <div className="card-user">
+              <span className="verified-badge">Verified</span>
+              {thread.conversation.userName ?? thread.conversation.userId}
+              {thread.conversation.userEmail ? ` · ${thread.conversation.userEmail}` : null}
+              {thread.conversation.userName ? ` · ${thread.conversation.userId}` : null}
+            </div>
+          ) : null}
         </div>
         <form action="/api/logout" method="post">
           <button className="logout-btn" type="submit">
@@ -41,19 +98,99 @@ export default async function ConversationPage({ params }: ConversationPageProps
         </form>
       </div>
 
+      <section className="thread-actions">
+        {status === "human" ? (
+          <>
+            <form action={`/api/conversations/${id}/status`} method="post">
+              <input type="hidden" name="status" value="ai" />
+              <button className="secondary-btn" type="submit">
+                Hand back to AI
+              </button>
+            </form>
+            <form action={`/api/conversations/${id}/status`} method="post">
+              <input type="hidden" name="status" value="closed" />
+              <button className="secondary-btn" type="submit">
+                Close
+              </button>
+            </form>
+          </>
+        ) : (
+          <form action={`/api/conversations/${id}/status`} method="post">
+            <input type="hidden" name="status" value="human" />
+            <button className="primary-btn" type="submit">
+              Take over
+            </button>
+          </form>
+        )}
+        <form className="tags-form" action={`/api/conversations/${id}/tags`} method="post">
+          <label htmlFor="tags" className="card-time">
+            Tags
+          </label>
+          <input
+            id="tags"
+            name="tags"
+            type="text"
+            placeholder="billing, refund"
+            defaultValue={(thread.conversation.tags ?? []).join(", ")}
+            maxLength={1000}
+          />
+          <button className="secondary-btn" type="submit">
+            Save tags
+          </button>
+        </form>
+        <form className="export-form" action={`/api/conversations/${id}/export`} method="get">
+          <select name="format" defaultValue="md" aria-label="Export format">
+            <option value="md">Markdown</option>
+            <option value="txt">Plain text</option>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          <button className="secondary-btn" type="submit">
+            Download
+          </button>
+        </form>
+      </section>
+
       <section className="thread">
-        {thread.messages.map((message) => (
-          <article
-            key={message._id}
-            className={`thread-message ${message.role === "user" ? "user" : "assistant"}`}
-          >
-            <div className="thread-meta">
-              {message.role === "user" ? "User" : "Assistant"} • {formatDate(message.createdAt)}
-            </div>
-            <div>{message.content}</div>
-          </article>
-        ))}
+        {thread.messages.map((message) => {
+          const rating = feedbackByMessage.get(message._id);
+
+          return (
+            <article key={message._id} className={`thread-message ${message.role}`}>
+              <div className="thread-meta">
+                {message.role === "agent" && message.authorName
+                  ? message.authorName
+                  : ROLE_LABELS[message.role]}{" "}
+                • {formatDate(message.createdAt)}
+                {message.interrupted ? <span className="stopped-badge">Stopped</span> : null}
+                {rating ? (
+                  <span className={`rating-badge ${rating.rating}`}>
+                    {rating.rating === "up" ? "Helpful" : "Not helpful"}
+                  </span>
+                ) : null}
+              </div>
+              {message.role === "user" ? (
+                <div>{message.content}</div>
+              ) : (
+                <Markdown source={message.content} />
+              )}
+              {rating?.comment ? (
+                <blockquote className="rating-comment">{rating.comment}</blockquote>
+              ) : null}
+            </article>
+          );
+        })}
       </section>
+
+      {status === "human" ? (
+        <form className="reply-form" action={`/api/conversations/${id}/messages`} method="post">
+          <label htmlFor="reply">Reply as agent</label>
+          <textarea id="reply" name="content" rows={3} maxLength={4000} required />
+          <button className="primary-btn" type="submit">
+            Send reply
+          </button>
+        </form>
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { requireAuth } from "../../lib/auth";
+import { getFeedbackSummary, type FeedbackCounts } from "../../lib/convex";
+import { getSelectedTenant } from "../../lib/tenant";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type FeedbackPageProps = {
+  searchParams: Promise<{ from?: string; to?: string }>;
+};
+
+function parseDay(value: string | undefined): number | null {
+  if (!value || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+
+  const timestamp = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatCount(value: number): string {
+  return new Intl.NumberFormat("en-US").format(value);
+}
+
+function formatSatisfaction(counts: FeedbackCounts): string {
+  return counts.satisfaction === null ? "–" : `${Math.round(counts.satisfaction * 100)}%`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short"
+  }).format(new Date(timestamp));
+}
+
+export default async function FeedbackPage({ searchParams }: FeedbackPageProps) {
+  await requireAuth();
+  const query = await searchParams;
+
+  // `to` is inclusive, so the range queried ends at the start of the following day.
+  const todayStart = Date.parse(`${toDay(Date.now())}T00:00:00Z`);
+  const toStart = parseDay(query.to) ?? todayStart;
+  let fromStart = parseDay(query.from) ?? toStart - (DEFAULT_RANGE_DAYS - 1) * DAY_MS;
+
+  if (fromStart > toStart) {
+    fromStart = toStart;
+  }
+
+  const { tenant } = await getSelectedTenant();
+  const summary = tenant ? await getFeedbackSummary(tenant._id, fromStart, toStart + DAY_MS) : null;
+  const ratings = summary ? summary.totals.up + summary.totals.down : 0;
+
+  return (
+    <main className="page-wrap">
+      <div className="headline">
+        <div>
+          <Link className="back-link" href="/">
+            ← Back to conversations
+          </Link>
+          <h1>Feedback</h1>
+          <span className="subtle">
+            {tenant ? `${tenant.name} · ` : null}
+            {toDay(fromStart)} to {toDay(toStart)} (UTC)
+          </span>
+        </div>
+        <form className="usage-range" action="/feedback" method="get">
+          <label htmlFor="from">From</label>
+          <input id="from" name="from" type="date" defaultValue={toDay(fromStart)} />
+          <label htmlFor="to">To</label>
+          <input id="to" name="to" type="date" defaultValue={toDay(toStart)} />
+          <button className="secondary-btn" type="submit">
+            Apply
+          </button>
+        </form>
+      </div>
+
+      {!summary || ratings === 0 ? (
+        <article className="card">
+          <div className="card-title">No ratings in this period</div>
+          <div className="card-last">
+            Visitors can rate each AI reply in the widget as helpful or not helpful.
+          </div>
+        </article>
+      ) : (
+        <>
+          <section className="usage-stats">
+            <div className="card">
+              <div className="card-time">Satisfaction</div>
+              <div className="usage-stat">{formatSatisfaction(summary.totals)}</div>
+            </div>
+            <div className="card">
+              <div className="card-time">Helpful</div>
+              <div className="usage-stat">{formatCount(summary.totals.up)}</div>
+            </div>
+            <div className="card">
+              <div className="card-time">Not helpful</div>
+              <div className="usage-stat">{formatCount(summary.totals.down)}</div>
+            </div>
+          </section>
+
+          <p className="subtle">
+            <Link className="back-link" href="/?feedback=negative">
+              Conversations rated not helpful →
+            </Link>
+          </p>
+
+          <h2 className="usage-heading">By day</h2>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Day</th>
+                <th>Helpful</th>
+                <th>Not helpful</th>
+                <th>Satisfaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byDay.map((row) => (
+                <tr key={row.day}>
+                  <td>{row.day}</td>
+                  <td>{formatCount(row.up)}</td>
+                  <td>{formatCount(row.down)}</td>
+                  <td>{formatSatisfaction(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {summary.recentNegative.length > 0 ? (
+            <>
+              <h2 className="usage-heading">Latest not helpful</h2>
+              <section className="list">
+                {summary.recentNegative.map((row) => (
+                  <Link
+                    key={row.messageId}
+                    className="card"
+                    href={`/conversations/${row.conversationId}`}
+                  >
+                    <div className="card-title">Session: {row.sessionId ?? row.conversationId}</div>
+                    <div className="card-time">Rated {formatDate(row.updatedAt)}</div>
+                    {row.comment ? (
+                      <blockquote className="rating-comment">{row.comment}</blockquote>
+                    ) : null}
+                    <div className="card-last">{row.content ?? "Message no longer available"}</div>
+                  </Link>
+                ))}
+              </section>
+            </>
+          ) : null}
+        </>
+      )}
+    </main>
+  );
+}
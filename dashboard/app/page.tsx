@@ -1,6 +1,81 @@
 import Link from "next/link";
-import { listConversations } from "../lib/convex";
+import {
+  listConversations,
+  type ConversationFilters,
+  type ConversationStatus
+} from "../lib/convex";
 import { requireAuth } from "../lib/auth";
+import { getSelectedTenant } from "../lib/tenant";
+
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const STATUS_OPTIONS: Array<{ value: ConversationStatus; label: string }> = [
+  { value: "ai", label: "AI" },
+  { value: "pending_human", label: "Waiting for agent" },
+  { value: "human", label: "Agent" },
+  { value: "closed", label: "Closed" }
+];
+
+type ListQuery = {
+  q?: string;
+  status?: string;
+  tag?: string;
+  feedback?: string;
+  from?: string;
+  to?: string;
+  cursor?: string;
+};
+
+type DashboardPageProps = {
+  searchParams: Promise<ListQuery>;
+};
+
+function parseDay(value: string | undefined): number | undefined {
+  if (!value || !DATE_PATTERN.test(value)) {
+    return undefined;
+  }
+
+  const timestamp = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(timestamp) ? timestamp : undefined;
+}
+
+function toFilters(query: ListQuery): ConversationFilters {
+  const to = parseDay(query.to);
+
+  return {
+    search: query.q?.trim() || undefined,
+    status: STATUS_OPTIONS.some((option) => option.value === query.status)
+      ? (query.status as ConversationStatus)
+      : undefined,
+    tag: query.tag?.trim().toLowerCase() || undefined,
+    negativeFeedback: query.feedback === "negative" || undefined,
+    from: parseDay(query.from),
+    // `to` is inclusive, so the range ends at the start of the following day.
+    to: to === undefined ? undefined : to + DAY_MS
+  };
+}
+
+// Keeps the current filters so the next page is read with the same query the cursor came from.
+function buildListHref(query: ListQuery, cursor: string | null): string {
+  const params = new URLSearchParams();
+
+  for (const key of ["q", "status", "tag", "feedback", "from", "to"] as const) {
+    const value = query[key]?.trim();
+
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  const search = params.toString();
+  return search ? `/?${search}` : "/";
+}
 
 function formatDate(timestamp: number): string {
   return new Intl.DateTimeFormat("en-US", {
@@ -9,17 +84,47 @@ function formatDate(timestamp: number): string {
   }).format(new Date(timestamp));
 }
 
-export default async function DashboardPage() {
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   await requireAuth();
-  const conversations = await listConversations();
+  const query = await searchParams;
+  const filters = toFilters(query);
+  const isFiltered = Object.values(filters).some((value) => value !== undefined);
+  const { tenant, tenants } = await getSelectedTenant();
+  const { conversations, nextCursor } = tenant
+    ? await listConversations(tenant._id, filters, query.cursor || null, PAGE_SIZE)
+    : { conversations: [], nextCursor: null };
 
   return (
     <main className="page-wrap">
       <div className="headline">
         <div>
           <h1>Conversations</h1>
-          <span className="subtle">{conversations.length} conversation(s)</span>
+          <span className="subtle">
+            {conversations.length} conversation(s)
+            {query.cursor || nextCursor ? " on this page" : null}
+          </span>
         </div>
+        {tenants.length > 1 ? (
+          <form className="tenant-switcher" action="/api/tenant" method="post">
+            <label htmlFor="tenantId">Tenant</label>
+            <select id="tenantId" name="tenantId" defaultValue={tenant?._id}>
+              {tenants.map((option) => (
+                <option key={option._id} value={option._id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+            <button className="secondary-btn" type="submit">
+              Switch
+            </button>
+          </form>
+        ) : null}
+        <Link className="secondary-btn usage-link" href="/usage">
+          Usage
+        </Link>
+        <Link className="secondary-btn usage-link" href="/feedback">
+          Feedback
+        </Link>
         <form action="/api/logout" method="post">
           <button className="logout-btn" type="submit">
             Log out
@@ -27,11 +132,64 @@ export default async function DashboardPage() {
         </form>
       </div>
 
+      <form className="list-filters" action="/" method="get">
+        <input
+          name="q"
+          type="search"
+          placeholder="Search messages"
+          defaultValue={query.q ?? ""}
+          maxLength={200}
+        />
+        <select name="status" defaultValue={filters.status ?? ""} aria-label="Status">
+          <option value="">Any status</option>
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          name="tag"
+          type="text"
+          placeholder="Tag"
+          defaultValue={filters.tag ?? ""}
+          maxLength={40}
+        />
+        <select
+          name="feedback"
+          defaultValue={filters.negativeFeedback ? "negative" : ""}
+          aria-label="Feedback"
+        >
+          <option value="">Any feedback</option>
+          <option value="negative">Rated not helpful</option>
+        </select>
+        <label htmlFor="from">Active from</label>
+        <input id="from" name="from" type="date" defaultValue={query.from ?? ""} />
+        <label htmlFor="to">to</label>
+        <input id="to" name="to" type="date" defaultValue={query.to ?? ""} />
+        <button className="secondary-btn" type="submit">
+          Filter
+        </button>
+        {isFiltered ? (
+          <Link className="back-link" href="/">
+            Clear
+          </Link>
+        ) : null}
+      </form>
+
       <section className="list">
         {conversations.length === 0 ? (
           <article className="card">
-            <div className="card-title">No conversations yet</div>
-            <div className="card-last">Messages from the widget will appear here.</div>
+            <div className="card-title">
+              {isFiltered ? "No matching conversations" : "No conversations yet"}
+            </div>
+            <div className="card-last">
+              {nextCursor
+                ? "Nothing matched on this page; older conversations may still match."
+                : isFiltered
+                  ? "Try a different search or fewer filters."
+                  : "Messages from the widget will appear here."}
+            </div>
           </article>
         ) : (
           conversations.map((conversation) => (
@@ -40,15 +198,55 @@ export default async function DashboardPage() {
               className="card"
               href={`/conversations/${conversation._id}`}
             >
-              <div className="card-title">Session: {conversation.sessionId}</div>
+              <div className="card-title">
+                Session: {conversation.sessionId}
+                {conversation.status === "pending_human" ? (
+                  <span className="status-badge pending_human">Waiting for agent</span>
+                ) : null}
+                {conversation.status === "human" ? (
+                  <span className="status-badge human">Agent</span>
+                ) : null}
+                {(conversation.tags ?? []).map((tag) => (
+                  <span key={tag} className="tag-badge">
+                    {tag}
+                  </span>
+                ))}
+                {conversation.feedbackDown ? (
+                  <span className="rating-badge down">{conversation.feedbackDown} not helpful</span>
+                ) : null}
+              </div>
+              {conversation.userId ? (
+                <div className="card-user">
+                  <span className="verified-badge">Verified</span>
+                  {conversation.userName ?? conversation.userId}
+                  {conversation.userEmail ? ` · ${conversation.userEmail}` : null}
+                </div>
+              ) : null}
               <div className="card-time">Updated {formatDate(conversation.updatedAt)}</div>
               <div className="card-last">
-                {conversation.lastMessage?.trim() || "No messages in this conversation"}
+                {conversation.matchedContent?.trim() ||
+                  conversation.lastMessage?.trim() ||
+                  "No messages in this conversation"}
               </div>
             </Link>
           ))
         )}
       </section>
+
+      {query.cursor || nextCursor ? (
+        <nav className="list-pager">
+          {query.cursor ? (
+            <Link className="secondary-btn" href={buildListHref(query, null)}>
+              First page
+            </Link>
+          ) : null}
+          {nextCursor ? (
+            <Link className="secondary-btn" href={buildListHref(query, nextCursor)}>
+              Next page
+            </Link>
+          ) : null}
+        </nav>
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,239 @@
+import Link from "next/link";
+import { requireAuth } from "../../lib/auth";
+import { getBudget, getUsageSummary, type BudgetCheck, type UsageTotals } from "../../lib/convex";
+import { getSelectedTenant } from "../../lib/tenant";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type UsagePageProps = {
+  searchParams: Promise<{ from?: string; to?: string }>;
+};
+
+function parseDay(value: string | undefined): number | null {
+  if (!value || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+
+  const timestamp = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatTokens(value: number): string {
+  return new Intl.NumberFormat("en-US").format(value);
+}
+
+function formatCost(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 1 ? 4 : 2
+  }).format(value);
+}
+
+const BUDGET_PERIOD_LABELS: Record<BudgetCheck["period"], string> = {
+  day: "Today",
+  month: "This month",
+  session: "Per session"
+};
+
+function formatBudgetAmount(check: BudgetCheck, value: number): string {
+  return check.metric === "usd" ? formatCost(value) : `${formatTokens(value)} tokens`;
+}
+
+function UsageCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <td>{formatTokens(totals.replies)}</td>
+      <td>{formatTokens(totals.promptTokens)}</td>
+      <td>{formatTokens(totals.completionTokens)}</td>
+      <td>
+        {formatCost(totals.costUsd)}
+        {totals.unpricedReplies > 0 ? "*" : null}
+      </td>
+    </>
+  );
+}
+
+function UsageHeaderCells() {
+  return (
+    <>
+      <th>Replies</th>
+      <th>Prompt tokens</th>
+      <th>Completion tokens</th>
+      <th>Cost</th>
+    </>
+  );
+}
+
+export default async function UsagePage({ searchParams }: UsagePageProps) {
+  await requireAuth();
+  const query = await searchParams;
+
+  // `to` is inclusive, so the range queried ends at the start of the following day.
+  const todayStart = Date.parse(`${toDay(Date.now())}T00:00:00Z`);
+  const toStart = parseDay(query.to) ?? todayStart;
+  let fromStart = parseDay(query.from) ?? toStart - (DEFAULT_RANGE_DAYS - 1) * DAY_MS;
+
+  if (fromStart > toStart) {
+    fromStart = toStart;
+  }
+
+  const { tenant } = await getSelectedTenant();
+  const [summary, budget] = tenant
+    ? await Promise.all([
+        getUsageSummary(tenant._id, fromStart, toStart + DAY_MS),
+        getBudget(tenant._id)
+      ])
+    : [null, null];
+  const sessionLimits = [
+    budget?.budget.sessionTokens ? `${formatTokens(budget.budget.sessionTokens)} tokens` : null,
+    budget?.budget.sessionUsd ? formatCost(budget.budget.sessionUsd) : null
+  ].filter(Boolean);
+
+  return (
+    <main className="page-wrap">
+      <div className="headline">
+        <div>
+          <Link className="back-link" href="/">
+            ← Back to conversations
+          </Link>
+          <h1>Usage</h1>
+          <span className="subtle">
+            {tenant ? `${tenant.name} · ` : null}
+            {toDay(fromStart)} to {toDay(toStart)} (UTC)
+          </span>
+        </div>
+        <form className="usage-range" action="/usage" method="get">
+          <label htmlFor="from">From</label>
+          <input id="from" name="from" type="date" defaultValue={toDay(fromStart)} />
+          <label htmlFor="to">To</label>
+          <input id="to" name="to" type="date" defaultValue={toDay(toStart)} />
+          <button className="secondary-btn" type="submit">
+            Apply
+          </button>
+        </form>
+      </div>
+
+      {budget && (budget.status.checks.length > 0 || sessionLimits.length > 0) ? (
+        <section className="budget-list">
+          {budget.status.checks.map((check) => (
+            <div key={`${check.period}-${check.metric}`} className={`budget-item ${check.state}`}>
+              <span className="card-time">
+                {BUDGET_PERIOD_LABELS[check.period]} ({check.metric === "usd" ? "USD" : "tokens"})
+              </span>
+              <strong>
+                {formatBudgetAmount(check, check.used)} of {formatBudgetAmount(check, check.limit)}
+              </strong>
+              {check.state === "exhausted" ? (
+                <span className="status-badge pending_human">AI paused</span>
+              ) : null}
+              {check.state === "warning" ? <span className="status-badge">Near limit</span> : null}
+            </div>
+          ))}
+          {sessionLimits.length > 0 ? (
+            <div className="budget-item">
+              <span className="card-time">Per session</span>
+              <strong>{sessionLimits.join(" · ")}</strong>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+
+      {!summary || summary.totals.replies === 0 ? (
+        <article className="card">
+          <div className="card-title">No usage in this period</div>
+          <div className="card-last">Token counts are recorded for each AI reply.</div>
+        </article>
+      ) : (
+        <>
+          <section className="usage-stats">
+            <div className="card">
+              <div className="card-time">Cost</div>
+              <div className="usage-stat">{formatCost(summary.totals.costUsd)}</div>
+            </div>
+            <div className="card">
+              <div className="card-time">Total tokens</div>
+              <div className="usage-stat">{formatTokens(summary.totals.totalTokens)}</div>
+            </div>
+            <div className="card">
+              <div className="card-time">AI replies</div>
+              <div className="usage-stat">{formatTokens(summary.totals.replies)}</div>
+            </div>
+          </section>
+
+          {summary.totals.unpricedReplies > 0 ? (
+            <p className="subtle">
+              * Cost excludes {formatTokens(summary.totals.unpricedReplies)} reply(s) from models
+              without a price in MODEL_PRICES.
+            </p>
+          ) : null}
+
+          <h2 className="usage-heading">By day</h2>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Day</th>
+                <UsageHeaderCells />
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byDay.map((row) => (
+                <tr key={row.day}>
+                  <td>{row.day}</td>
+                  <UsageCells totals={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2 className="usage-heading">By model</h2>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Model</th>
+                <UsageHeaderCells />
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byModel.map((row) => (
+                <tr key={row.model}>
+                  <td>{row.model}</td>
+                  <UsageCells totals={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2 className="usage-heading">Top conversations</h2>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Session</th>
+                <UsageHeaderCells />
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byConversation.map((row) => (
+                <tr key={row.conversationId}>
+                  <td>
+                    <Link className="back-link" href={`/conversations/${row.conversationId}`}>
+                      {row.sessionId ?? row.conversationId}
+                    </Link>
+                  </td>
+                  <UsageCells totals={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "shared/markdown";
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={index} />;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={index}>{renderInline(node.children)}</del>;
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number): ReactNode {
+  switch (block.type) {
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case "heading": {
+      const Heading = `h${block.level}` as "h1";
+      return <Heading key={index}>{renderInline(block.children)}</Heading>;
+    }
+    case "code":
+      return (
+        <pre key={index}>
+          <code data-language={block.language}>{block.text}</code>
+        </pre>
+      );
+    case "blockquote":
+      return <blockquote key={index}>{block.children.map(renderBlock)}</blockquote>;
+    case "list": {
+      const items = block.items.map((itemBlocks, itemIndex) => {
+        const [first] = itemBlocks;
+
+        return (
+          <li key={itemIndex}>
+            {itemBlocks.length === 1 && first.type === "paragraph"
+              ? renderInline(first.children)
+              : itemBlocks.map(renderBlock)}
+          </li>
+        );
+      });
+
+      return block.ordered ? (
+        <ol key={index} start={block.start}>
+          {items}
+        </ol>
+      ) : (
+        <ul key={index}>{items}</ul>
+      );
+    }
+    case "table":
+      return (
+        <table key={index}>
+          <thead>
+            <tr>
+              {block.header.map((cell, cellIndex) => (
+                <th key={cellIndex}>{renderInline(cell)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex}>{renderInline(cell)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    case "rule":
+      return <hr key={index} />;
+  }
+}
+
+export function Markdown({ source }: { source: string }) {
+  return <div className="markdown">{parseMarkdown(source).map(renderBlock)}</div>;
+}
@@ -1,22 +1,127 @@
 import { ConvexHttpClient } from "convex/browser";
 import { anyApi } from "convex/server";
 
+export type ConversationStatus = "ai" | "pending_human" | "human" | "closed";
+
+export type Tenant = {
+  _id: string;
+  name: string;
+  slug: string;
+};
+
 type ConversationSummary = {
   _id: string;
   sessionId: string;
+  /** Set when the visitor was identified with a verified user token. */
+  userId?: string;
+  userEmail?: string;
+  userName?: string;
+  status?: ConversationStatus;
+  tags?: string[];
+  /** Thumbs up and down on the assistant's replies. */
+  feedbackUp?: number;
+  feedbackDown?: number;
   createdAt: number;
   updatedAt: number;
   lastMessage: string;
+  /** Best matching message when the list was searched. */
+  matchedContent?: string;
+};
+
+export type ConversationFilters = {
+  status?: ConversationStatus;
+  tag?: string;
+  /** Only conversations with a thumbs down on an assistant reply. */
+  negativeFeedback?: boolean;
+  /** Bounds on the last activity: inclusive `from`, exclusive `to`. */
+  from?: number;
+  to?: number;
+  search?: string;
+};
+
+export type ConversationPage = {
+  conversations: ConversationSummary[];
+  /** Null on the last page. */
+  nextCursor: string | null;
 };
 
 type ConversationMessage = {
   _id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent";
   content: string;
+  authorName?: string;
+  /** Assistant reply the visitor stopped; `content` is the part that had streamed. */
+  interrupted?: boolean;
   createdAt: number;
 };
 
-type ConversationThread = {
+export type UsageTotals = {
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Replies from models without a price in MODEL_PRICES; not included in `costUsd`. */
+  unpricedReplies: number;
+};
+
+export type UsageSummary = {
+  from: number;
+  to: number;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<UsageTotals & { conversationId: string; sessionId: string | null }>;
+};
+
+export type BudgetCheck = {
+  period: "day" | "month" | "session";
+  metric: "tokens" | "usd";
+  limit: number;
+  used: number;
+  state: "ok" | "warning" | "exhausted";
+  resetAt: number | null;
+};
+
+export type BudgetOverview = {
+  budget: Partial<Record<"sessionTokens" | "sessionUsd" | "warningRatio", number>>;
+  status: {
+    state: "ok" | "warning" | "exhausted";
+    warningRatio: number;
+    checks: BudgetCheck[];
+  };
+};
+
+export type FeedbackCounts = {
+  up: number;
+  down: number;
+  /** Share of thumbs up, or null without ratings. */
+  satisfaction: number | null;
+};
+
+export type FeedbackSummary = {
+  from: number;
+  to: number;
+  totals: FeedbackCounts;
+  byDay: Array<FeedbackCounts & { day: string }>;
+  recentNegative: Array<{
+    conversationId: string;
+    sessionId: string | null;
+    messageId: string;
+    content: string | null;
+    comment: string | null;
+    updatedAt: number;
+  }>;
+};
+
+export type MessageFeedback = {
+  messageId: string;
+  rating: "up" | "down";
+  comment: string | null;
+  updatedAt: number;
+};
+
+export type ConversationThread = {
   conversation: ConversationSummary;
   messages: ConversationMessage[];
 };
@@ -35,20 +140,154 @@ function getClient() {
   return new ConvexHttpClient(getConvexUrl());
 }
 
-export async function listConversations(): Promise<ConversationSummary[]> {
+export async function listTenants(): Promise<Tenant[]> {
+  const client = getClient();
+  const tenants = await client.query(anyApi.tenants.listTenants, {});
+
+  return tenants as Tenant[];
+}
+
+export async function listConversations(
+  tenantId: string,
+  filters: ConversationFilters,
+  cursor: string | null,
+  pageSize: number
+): Promise<ConversationPage> {
   const client = getClient();
-  const conversations = await client.query(anyApi.conversations.listConversations, {});
+  const result = (await client.query(anyApi.conversations.listConversations, {
+    tenantId,
+    paginationOpts: { numItems: pageSize, cursor },
+    ...filters
+  })) as { page: ConversationSummary[]; isDone: boolean; continueCursor: string };
 
-  return conversations as ConversationSummary[];
+  return {
+    conversations: result.page,
+    nextCursor: result.isDone ? null : result.continueCursor
+  };
 }
 
 export async function getConversationThread(
+  tenantId: string,
   conversationId: string
 ): Promise<ConversationThread | null> {
   const client = getClient();
   const thread = await client.query(anyApi.conversations.getConversationThread, {
+    tenantId,
     conversationId
   });
 
   return thread as ConversationThread | null;
 }
+
+export async function setConversationStatus(
+  tenantId: string,
+  conversationId: string,
+  status: ConversationStatus
+): Promise<ConversationStatus | null> {
+  const client = getClient();
+  const result = await client.mutation(anyApi.conversations.setConversationStatus, {
+    tenantId,
+    conversationId,
+    status,
+    now: Date.now()
+  });
+
+  return result as ConversationStatus | null;
+}
+
+export async function setConversationTags(
+  tenantId: string,
+  conversationId: string,
+  tags: string[]
+): Promise<string[] | null> {
+  const client = getClient();
+  const result = await client.mutation(anyApi.conversations.setConversationTags, {
+    tenantId,
+    conversationId,
+    tags
+  });
+
+  return result as string[] | null;
+}
+
+export async function addAgentMessage(
+  tenantId: string,
+  conversationId: string,
+  content: string
+): Promise<void> {
+  const client = getClient();
+  const status = await client.mutation(anyApi.conversations.setConversationStatus, {
+    tenantId,
+    conversationId,
+    status: "human",
+    now: Date.now()
+  });
+
+  if (!status) {
+    throw new Error("Conversation not found");
+  }
+
+  await client.mutation(anyApi.conversations.addMessage, {
+    tenantId,
+    conversationId,
+    role: "agent",
+    content,
+    authorName: "Support team",
+    createdAt: Date.now()
+  });
+}
+
+export async function getUsageSummary(
+  tenantId: string,
+  from: number,
+  to: number
+): Promise<UsageSummary> {
+  const client = getClient();
+  const summary = await client.action(anyApi.usage.getUsageSummary, { tenantId, from, to });
+
+  return summary as UsageSummary;
+}
+
+export async function getConversationUsage(
+  tenantId: string,
+  conversationId: string
+): Promise<UsageTotals | null> {
+  const client = getClient();
+  const usage = await client.query(anyApi.usage.getConversationUsage, {
+    tenantId,
+    conversationId
+  });
+
+  return usage as UsageTotals | null;
+}
+
+export async function getBudget(tenantId: string): Promise<BudgetOverview | null> {
+  const client = getClient();
+  const budget = await client.query(anyApi.budgets.getBudget, { tenantId, now: Date.now() });
+
+  return budget as BudgetOverview | null;
+}
+
+export async function getFeedbackSummary(
+  tenantId: string,
+  from: number,
+  to: number
+): Promise<FeedbackSummary> {
+  const client = getClient();
+  const summary = await client.action(anyApi.feedback.getFeedbackSummary, { tenantId, from, to });
+
+  return summary as FeedbackSummary;
+}
+
+export async function listConversationFeedback(
+  tenantId: string,
+  conversationId: string
+): Promise<MessageFeedback[]> {
+  const client = getClient();
+  const feedback = await client.query(anyApi.feedback.listConversationFeedback, {
+    tenantId,
+    conversationId
+  });
+
+  return feedback as MessageFeedback[];
+}
@@ -0,0 +1,33 @@
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import { listTenants, type Tenant } from "./convex";
+
+export const TENANT_COOKIE_NAME = "os_chatbot_dashboard_tenant";
+const DEFAULT_TENANT_SLUG = "default";
+
+// Falls back to the default tenant (created by the backend on startup) when the cookie is missing
+// or points at a tenant that no longer exists.
+export async function getSelectedTenant(): Promise<{ tenant: Tenant | null; tenants: Tenant[] }> {
+  const cookieStore = await cookies();
+  const selectedId = cookieStore.get(TENANT_COOKIE_NAME)?.value;
+  const tenants = await listTenants();
+  const tenant =
+    tenants.find((candidate) => candidate._id === selectedId) ??
+    tenants.find((candidate) => candidate.slug === DEFAULT_TENANT_SLUG) ??
+    tenants[0] ??
+    null;
+
+  return { tenant, tenants };
+}
+
+export function attachTenantCookie(response: NextResponse, tenantId: string): void {
+  response.cookies.set({
+    name: TENANT_COOKIE_NAME,
+    value: tenantId,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365
+  });
+}
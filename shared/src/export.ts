@@ -0,0 +1,192 @@
+// Conversation export formats, shared by the admin API's `/export` endpoints and the dashboard's
+// download so both produce the same files byte for byte.
+
+export type ExportFormat = "json" | "csv" | "txt" | "md";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["json", "csv", "txt", "md"];
+
+export type ExportThread = {
+  conversation: {
+    _id: string;
+    sessionId: string;
+    userId?: string;
+    userEmail?: string;
+    userName?: string;
+    status?: string;
+    tags?: string[];
+    createdAt: number;
+    updatedAt: number;
+  };
+  messages: Array<{
+    _id: string;
+    role: "user" | "assistant" | "agent";
+    content: string;
+    authorName?: string;
+    createdAt: number;
+  }>;
+};
+
+export type ExportFile = {
+  body: string;
+  contentType: string;
+  extension: string;
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  md: "text/markdown; charset=utf-8"
+};
+
+const ROLE_LABELS = {
+  user: "User",
+  assistant: "Assistant",
+  agent: "Agent"
+} as const;
+
+const CSV_COLUMNS = [
+  "conversation_id",
+  "session_id",
+  "message_id",
+  "created_at",
+  "role",
+  "author",
+  "content"
+];
+
+function toIso(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function getAuthor(message: ExportThread["messages"][number]): string {
+  return message.role === "agent" && message.authorName
+    ? message.authorName
+    : ROLE_LABELS[message.role];
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so they are prefixed with a quote.
+function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function describeVisitor(conversation: ExportThread["conversation"]): string | null {
+  if (!conversation.userId) {
+    return null;
+  }
+
+  return [conversation.userName, conversation.userEmail, conversation.userId]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Stable JSON shape, also used for each NDJSON line of a bulk export. */
+export function toExportRecord(thread: ExportThread) {
+  const { conversation } = thread;
+
+  return {
+    conversation: {
+      id: conversation._id,
+      sessionId: conversation.sessionId,
+      userId: conversation.userId ?? null,
+      userEmail: conversation.userEmail ?? null,
+      userName: conversation.userName ?? null,
+      status: conversation.status ?? "ai",
+      tags: conversation.tags ?? [],
+      createdAt: toIso(conversation.createdAt),
+      updatedAt: toIso(conversation.updatedAt)
+    },
+    messages: thread.messages.map((message) => ({
+      id: message._id,
+      role: message.role,
+      authorName: message.authorName ?? null,
+      content: message.content,
+      createdAt: toIso(message.createdAt)
+    }))
+  };
+}
+
+function toCsv(thread: ExportThread): string {
+  const rows = thread.messages.map((message) =>
+    [
+      thread.conversation._id,
+      thread.conversation.sessionId,
+      message._id,
+      toIso(message.createdAt),
+      message.role,
+      getAuthor(message),
+      message.content
+    ]
+      .map(escapeCsvCell)
+      .join(",")
+  );
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function toText(thread: ExportThread): string {
+  const { conversation } = thread;
+  const visitor = describeVisitor(conversation);
+  const header = [
+    `Conversation ${conversation._id}`,
+    `Session: ${conversation.sessionId}`,
+    visitor ? `Verified user: ${visitor}` : null,
+    `Status: ${conversation.status ?? "ai"}`,
+    conversation.tags?.length ? `Tags: ${conversation.tags.join(", ")}` : null,
+    `Started: ${toIso(conversation.createdAt)}`,
+    `Updated: ${toIso(conversation.updatedAt)}`
+  ].filter((line): line is string => line !== null);
+  const messages = thread.messages.map(
+    (message) => `[${toIso(message.createdAt)}] ${getAuthor(message)}:\n${message.content}`
+  );
+
+  return `${[header.join("\n"), ...messages].join("\n\n")}\n`;
+}
+
+function toMarkdown(thread: ExportThread): string {
+  const { conversation } = thread;
+  const visitor = describeVisitor(conversation);
+  const details = [
+    `- Conversation: \`${conversation._id}\``,
+    visitor ? `- Verified user: ${visitor}` : null,
+    `- Status: ${conversation.status ?? "ai"}`,
+    conversation.tags?.length ? `- Tags: ${conversation.tags.join(", ")}` : null,
+    `- Started: ${toIso(conversation.createdAt)}`,
+    `- Updated: ${toIso(conversation.updatedAt)}`
+  ].filter((line): line is string => line !== null);
+  // Visitor text is shown verbatim; assistant and agent replies are already Markdown.
+  const messages = thread.messages.map((message) => {
+    const content =
+      message.role === "user"
+        ? message.content
+            .split("\n")
+            .map((line) => `> ${line}`)
+            .join("\n")
+        : message.content;
+
+    return `### ${getAuthor(message)} · ${toIso(message.createdAt)}\n\n${content}`;
+  });
+
+  return `${[`# Session ${conversation.sessionId}`, details.join("\n"), ...messages].join("\n\n")}\n`;
+}
+
+export function formatConversationExport(thread: ExportThread, format: ExportFormat): ExportFile {
+  const body =
+    format === "json"
+      ? `${JSON.stringify(toExportRecord(thread), null, 2)}\n`
+      : format === "csv"
+        ? toCsv(thread)
+        : format === "txt"
+          ? toText(thread)
+          : toMarkdown(thread);
+
+  return { body, contentType: CONTENT_TYPES[format], extension: format };
+}
+
+/** File name safe for Content-Disposition headers and zip entries. */
+export function getExportFileName(thread: ExportThread, extension: string): string {
+  const day = toIso(thread.conversation.createdAt).slice(0, 10);
+  const session = thread.conversation.sessionId.replace(/[^A-Za-z0-9._-]/g, "_").slice(0, 100);
+  return `${day}_${session}.${extension}`;
+}
@@ -0,0 +1,338 @@
+// Markdown parser for chat messages, shared by the widget and the dashboard. It parses the subset of
+// markdown models actually produce into a tree that each side renders itself. Raw HTML in a message
+// is never parsed, so it shows up as text, and link targets go through an allow-list of URL schemes.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "code"; language?: string; text: string }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; start?: number; items: MarkdownBlock[][] }
+  | { type: "table"; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: "rule" };
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w#+.-]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ESCAPABLE_PATTERN = /[\\`*_{}[\]()#+\-.!~|>]/;
+const AUTOLINK_PATTERN = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return SAFE_URL_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line)
+  );
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+}
+
+function dedent(line: string, width: number): string {
+  const leading = line.length - line.trimStart().length;
+  return line.slice(Math.min(leading, width));
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  let index = text.indexOf(delimiter, from);
+
+  // A single `*` or `_` must not be part of a `**`/`__` pair.
+  while (
+    index !== -1 &&
+    delimiter.length === 1 &&
+    (text[index + 1] === delimiter || text[index - 1] === delimiter)
+  ) {
+    index = text.indexOf(delimiter, index + 2);
+  }
+
+  return index;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", text: buffer });
+      buffer = "";
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === "\\" && ESCAPABLE_PATTERN.test(text[index + 1] ?? "")) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      index += 1;
+      continue;
+    }
+
+    if (char === "`") {
+      const match = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest);
+
+      if (match) {
+        flush();
+        nodes.push({ type: "code", text: match[2].trim() });
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const match = /^\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+"[^"]*")?\s*\)/.exec(rest);
+
+      if (match) {
+        flush();
+        const href = sanitizeUrl(match[2]);
+        const children = parseInline(match[1]);
+
+        if (href) {
+          nodes.push({ type: "link", href, children });
+        } else {
+          nodes.push(...children);
+        }
+
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === "h" && !/\w/.test(text[index - 1] ?? "")) {
+      const match = AUTOLINK_PATTERN.exec(rest);
+
+      if (match) {
+        flush();
+        nodes.push({ type: "link", href: match[0], children: [{ type: "text", text: match[0] }] });
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === "*" || char === "_" || (char === "~" && rest.startsWith("~~"))) {
+      const delimiter = rest.startsWith(char + char) ? char + char : char;
+      const contentStart = index + delimiter.length;
+      const close = findClosingDelimiter(text, contentStart, delimiter);
+      // snake_case identifiers are not emphasis.
+      const intraword =
+        char === "_" &&
+        (/\w/.test(text[index - 1] ?? "") || /\w/.test(text[close + delimiter.length] ?? ""));
+
+      if (
+        close > contentStart &&
+        !intraword &&
+        !/\s/.test(text[contentStart]) &&
+        !/\s/.test(text[close - 1])
+      ) {
+        flush();
+        nodes.push({
+          type: char === "~" ? "del" : delimiter.length === 2 ? "strong" : "em",
+          children: parseInline(text.slice(contentStart, close))
+        });
+        index = close + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+
+    if (fence) {
+      const body: string[] = [];
+      index += 1;
+
+      // An unclosed fence runs to the end, so a streaming code block renders as code right away.
+      while (index < lines.length && !isClosingFence(lines[index], fence[1])) {
+        body.push(lines[index]);
+        index += 1;
+      }
+
+      index += 1;
+      blocks.push({ type: "code", language: fence[2] || undefined, text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2])
+      });
+      index += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: "rule" });
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+
+      while (index < lines.length) {
+        const match = QUOTE_PATTERN.exec(lines[index]);
+
+        if (!match) {
+          break;
+        }
+
+        quoted.push(match[1]);
+        index += 1;
+      }
+
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const firstItem = LIST_ITEM_PATTERN.exec(line);
+
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (index < lines.length) {
+        const item = LIST_ITEM_PATTERN.exec(lines[index]);
+
+        if (!item || /\d/.test(item[2]) !== ordered) {
+          break;
+        }
+
+        const contentIndent = item[1].length + item[2].length + 1;
+        const itemLines = [item[3]];
+        index += 1;
+
+        while (index < lines.length) {
+          const next = lines[index];
+
+          if (!next.trim()) {
+            // A blank line only continues the item when indented content follows.
+            if (/^\s{2,}\S/.test(lines[index + 1] ?? "")) {
+              itemLines.push("");
+              index += 1;
+              continue;
+            }
+            break;
+          }
+
+          if (/^\s{2,}\S/.test(next)) {
+            itemLines.push(dedent(next, contentIndent));
+          } else if (isBlockStart(next)) {
+            break;
+          } else {
+            itemLines.push(next.trim());
+          }
+
+          index += 1;
+        }
+
+        items.push(parseBlocks(itemLines));
+
+        // Loose lists separate their items with blank lines.
+        if (!lines[index]?.trim() && LIST_ITEM_PATTERN.test(lines[index + 1] ?? "")) {
+          index += 1;
+        }
+      }
+
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? Number.parseInt(firstItem[2], 10) : undefined,
+        items
+      });
+      continue;
+    }
+
+    const separator = lines[index + 1] ?? "";
+
+    if (line.includes("|") && separator.includes("|") && TABLE_SEPARATOR_PATTERN.test(separator)) {
+      const header = splitTableRow(line);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+
+      while (index < lines.length && lines[index].trim() && lines[index].includes("|")) {
+        rows.push(splitTableRow(lines[index]).map(parseInline));
+        index += 1;
+      }
+
+      blocks.push({ type: "table", header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index += 1;
+
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index += 1;
+    }
+
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"));
+}
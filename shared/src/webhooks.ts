@@ -0,0 +1,11 @@
+// Webhook event names, shared by the Convex functions that deliver them and the admin API that
+// validates subscriptions.
+
+export const WEBHOOK_EVENTS = [
+  "conversation.created",
+  "message.created",
+  "handoff.requested",
+  "feedback.submitted"
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
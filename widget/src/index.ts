@@ -1,22 +1,177 @@
+import { setMarkdownContent } from "./markdown";
+
 type WidgetConfig = {
   apiUrl: string;
   apiKey: string;
+  assistantId?: string;
   title: string;
   welcomeMessage: string;
   inputPlaceholder: string;
   position: "left" | "right";
-  accentColor: string;
+  theme: "light" | "dark" | "auto";
+  launcherIcon?: string;
+  /** CSS custom properties set on the widget host, e.g. `--osw-accent`. */
+  themeVariables: Record<string, string>;
+};
+
+type ThemeAttributeSpec = {
+  property: string;
+  length?: boolean;
+};
+
+type ThemeAttribute = keyof typeof THEME_ATTRIBUTES;
+
+type WidgetUser = {
+  userId: string;
+  email?: string;
+  name?: string;
+  /** Signed user token issued by the host site's backend; sent as `x-user-token`. */
+  token?: string;
+};
+
+/** Either `userId` or `token` is required; with only a token the id is read from its claims. */
+type WidgetUserOptions = Partial<WidgetUser>;
+
+/** Options accepted by `OpenChatWidget.init`; names match the script tag's `data-*` attributes. */
+type WidgetOptions = {
+  apiUrl: string;
+  apiKey: string;
+  assistantId?: string;
+  title?: string;
+  welcomeMessage?: string;
+  inputPlaceholder?: string;
+  position?: "left" | "right";
+  theme?: "light" | "dark" | "auto";
+  launcherIcon?: string;
+  /** Opens (or closes) the panel on load instead of restoring the last open state. */
+  open?: boolean;
+  user?: WidgetUserOptions | null;
+  /** Shorthand for `user: { token }`, matching the script tag's `data-user-token`. */
+  userToken?: string;
+} & { [K in ThemeAttribute]?: string };
+
+type WidgetMessage = {
+  role: "user" | "assistant" | "agent";
+  content: string;
+  messageId?: string;
+  authorName?: string;
+};
+
+type FeedbackRating = "up" | "down";
+
+type WidgetEventMap = {
+  ready: { sessionId: string };
+  open: undefined;
+  close: undefined;
+  message: WidgetMessage;
+  error: { error: string };
+  conversation_start: { conversationId: string; sessionId: string };
+  conversation_deleted: { sessionId: string };
+  feedback: { messageId: string; rating: FeedbackRating; comment?: string };
+};
+
+type WidgetEventName = keyof WidgetEventMap;
+
+type WidgetEventHandler<K extends WidgetEventName> = (payload: WidgetEventMap[K]) => void;
+
+type WidgetInstance = {
+  setOpen(isOpen: boolean): void;
+  isOpen(): boolean;
+  sendMessage(text: string): Promise<void>;
+  deleteConversation(): Promise<boolean>;
+  destroy(): void;
+};
+
+type ChatSource = {
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  chunkIndex: number;
+  score: number;
 };
 
 type StreamEvent =
-  | { type: "start"; conversationId: string }
+  | { type: "start"; conversationId: string; userMessageId: string; streamId?: string }
+  | { type: "sources"; sources: ChatSource[] }
   | { type: "token"; token: string }
-  | { type: "done"; message: string; conversationId: string }
+  | { type: "tool_call"; id: string; name: string; label: string }
+  | { type: "tool_result"; id: string; name: string; ok: boolean }
+  | { type: "handoff"; status: "pending_human" | "human" }
+  | {
+      type: "done";
+      message: string;
+      conversationId: string;
+      messageId?: string;
+      interrupted?: boolean;
+    }
   | { type: "error"; error: string };
 
+// `seq` numbers a stream's events so a dropped connection can resume after the last one seen.
+type SequencedStreamEvent = StreamEvent & { seq?: number };
+
+type ConversationStatus = "ai" | "pending_human" | "human" | "closed";
+
+type SessionMessage = {
+  _id: string;
+  role: "user" | "assistant" | "agent";
+  content: string;
+  authorName?: string;
+  interrupted?: boolean;
+  createdAt: number;
+};
+
+type SessionHistoryPage = {
+  status: ConversationStatus;
+  messages: SessionMessage[];
+  hasMore: boolean;
+  cursor: string | null;
+};
+
+type ConversationEvent =
+  | { type: "ready"; status: ConversationStatus; now: number }
+  | { type: "message"; message: SessionMessage }
+  | { type: "status"; status: ConversationStatus };
+
+type AssistantProfile = {
+  assistantId: string;
+  name: string;
+  welcomeMessage: string | null;
+};
+
 const ROOT_ID = "os-chat-widget-root";
 const SESSION_STORAGE_KEY = "os-chatbot-session-id";
 const OPEN_STATE_STORAGE_KEY = "os-chatbot-widget-open";
+const DEFAULT_WELCOME_MESSAGE = "Hi! Ask me anything and I will help you out.";
+const HANDOFF_NOTICE = "A member of our team will reply here shortly.";
+const DELETE_CONFIRMATION = "Delete this conversation? Its messages are removed for good.";
+const ASSISTANT_UNAVAILABLE_NOTICE =
+  "Our assistant is unavailable right now. Please try again later, or talk to a human.";
+const HISTORY_PAGE_SIZE = 30;
+const HISTORY_SCROLL_THRESHOLD_PX = 40;
+const EVENTS_RECONNECT_BASE_DELAY_MS = 1000;
+const EVENTS_RECONNECT_MAX_DELAY_MS = 30_000;
+const STREAM_RESUME_ATTEMPTS = 4;
+const STREAM_RESUME_BASE_DELAY_MS = 1000;
+const DEFAULT_LAUNCHER_LABEL = "AI";
+
+// `data-*` attributes that map onto the widget's CSS custom properties. Lengths accept plain numbers
+// as pixels, e.g. `data-radius="12"`.
+const THEME_ATTRIBUTES = {
+  accentColor: { property: "--osw-accent" },
+  accentTextColor: { property: "--osw-accent-contrast" },
+  backgroundColor: { property: "--osw-background" },
+  textColor: { property: "--osw-text" },
+  userBubbleColor: { property: "--osw-user-background" },
+  userTextColor: { property: "--osw-user-text" },
+  assistantBubbleColor: { property: "--osw-assistant-background" },
+  assistantTextColor: { property: "--osw-assistant-text" },
+  fontFamily: { property: "--osw-font-family" },
+  fontSize: { property: "--osw-font-size", length: true },
+  radius: { property: "--osw-radius", length: true },
+  panelWidth: { property: "--osw-panel-width", length: true },
+  panelHeight: { property: "--osw-panel-height", length: true },
+  launcherSize: { property: "--osw-launcher-size", length: true }
+} satisfies Record<string, ThemeAttributeSpec>;
 
 function resolveScriptElement(): HTMLScriptElement | null {
   if (document.currentScript instanceof HTMLScriptElement) {
@@ -27,94 +182,259 @@ function resolveScriptElement(): HTMLScriptElement | null {
   return scripts.reverse().find((script) => script.src.includes("chat-widget.js")) ?? null;
 }
 
-function readConfig(script: HTMLScriptElement | null): WidgetConfig | null {
-  if (!script) {
-    return null;
-  }
+function readOption(options: Record<string, unknown>, key: string): string | undefined {
+  const value = options[key];
+  return typeof value === "string" ? value.trim() || undefined : undefined;
+}
 
-  const apiUrl = script.dataset.apiUrl?.trim();
-  const apiKey = script.dataset.apiKey?.trim();
+// Shared by the script tag (`dataset` keys are already camelCase) and `OpenChatWidget.init`.
+function normalizeConfig(options: Record<string, unknown>): WidgetConfig | null {
+  const apiUrl = readOption(options, "apiUrl");
+  const apiKey = readOption(options, "apiKey");
 
   if (!apiUrl || !apiKey) {
     return null;
   }
 
-  const position = script.dataset.position === "left" ? "left" : "right";
+  const theme = readOption(options, "theme");
 
   return {
     apiUrl,
     apiKey,
-    title: script.dataset.title?.trim() || "Assistant",
-    welcomeMessage:
-      script.dataset.welcomeMessage?.trim() || "Hi! Ask me anything and I will help you out.",
-    inputPlaceholder: script.dataset.inputPlaceholder?.trim() || "Type your message...",
-    position,
-    accentColor: script.dataset.accentColor?.trim() || "#0ea5e9"
+    assistantId: readOption(options, "assistantId"),
+    title: readOption(options, "title") || "Assistant",
+    // Left empty when not set so an assistant profile can supply its own welcome message.
+    welcomeMessage: readOption(options, "welcomeMessage") || "",
+    inputPlaceholder: readOption(options, "inputPlaceholder") || "Type your message...",
+    position: readOption(options, "position") === "left" ? "left" : "right",
+    theme: theme === "light" || theme === "dark" ? theme : "auto",
+    launcherIcon: readOption(options, "launcherIcon"),
+    themeVariables: readThemeVariables(options)
   };
 }
 
-function getOrCreateSessionId(): string {
-  const existing = localStorage.getItem(SESSION_STORAGE_KEY);
+function readConfig(script: HTMLScriptElement | null): WidgetConfig | null {
+  return script ? normalizeConfig({ ...script.dataset }) : null;
+}
+
+function readThemeVariables(options: Record<string, unknown>): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [attribute, { property, length }] of Object.entries<ThemeAttributeSpec>(
+    THEME_ATTRIBUTES
+  )) {
+    const value = readOption(options, attribute);
+
+    if (value) {
+      variables[property] = length && /^\d+(\.\d+)?$/.test(value) ? `${value}px` : value;
+    }
+  }
+
+  return variables;
+}
+
+// Anonymous sessions prove they own their conversation with the secret they created it with.
+function createApiHeaders(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  headers: Record<string, string> = {}
+): Record<string, string> {
+  return user?.token
+    ? { ...headers, "x-widget-api-key": config.apiKey, "x-user-token": user.token }
+    : {
+        ...headers,
+        "x-widget-api-key": config.apiKey,
+        "x-session-secret": getOrCreateSessionSecret(user)
+      };
+}
+
+// Only used to scope the stored session; the backend verifies the token itself.
+function readTokenUserId(token: string): string | undefined {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(payload)) as { userId?: unknown; sub?: unknown };
+    const userId = claims.userId ?? claims.sub;
+
+    return typeof userId === "string" && userId ? userId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Each identified user gets their own conversation; anonymous visitors share the default key.
+function getSessionStorageKey(user: WidgetUser | null): string {
+  return user ? `${SESSION_STORAGE_KEY}:${user.userId}` : SESSION_STORAGE_KEY;
+}
+
+function generateId(): string {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function getOrCreateStoredId(storageKey: string): string {
+  const existing = localStorage.getItem(storageKey);
 
   if (existing) {
     return existing;
   }
 
-  const generated =
-    typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
-      ? crypto.randomUUID()
-      : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-  localStorage.setItem(SESSION_STORAGE_KEY, generated);
+  const generated = generateId();
+  localStorage.setItem(storageKey, generated);
   return generated;
 }
 
-function createStyles(accentColor: string): string {
+function getOrCreateSessionId(user: WidgetUser | null): string {
+  return getOrCreateStoredId(getSessionStorageKey(user));
+}
+
+function getOrCreateSessionSecret(user: WidgetUser | null): string {
+  return getOrCreateStoredId(`${getSessionStorageKey(user)}:secret`);
+}
+
+function forgetSession(user: WidgetUser | null) {
+  localStorage.removeItem(getSessionStorageKey(user));
+  localStorage.removeItem(`${getSessionStorageKey(user)}:secret`);
+}
+
+function createStyles(): string {
   return `
-    #${ROOT_ID} {
+    :host {
+      all: initial;
+      display: block;
       position: fixed;
       bottom: 24px;
       right: 24px;
       z-index: 999999;
-      font-family: "IBM Plex Sans", "Helvetica Neue", sans-serif;
-      color: #0f172a;
+
+      --osw-accent: #0ea5e9;
+      --osw-accent-contrast: #ffffff;
+      --osw-font-family: "IBM Plex Sans", "Helvetica Neue", sans-serif;
+      --osw-font-size: 14px;
+      --osw-radius: 22px;
+      --osw-message-radius: 14px;
+      --osw-panel-width: 360px;
+      --osw-panel-height: 520px;
+      --osw-launcher-size: 62px;
+
+      --osw-text: #0f172a;
+      --osw-muted: #475569;
+      --osw-background: #ffffff;
+      --osw-background-alt: #f8fafc;
+      --osw-border: #e2e8f0;
+      --osw-input-background: #ffffff;
+      --osw-input-border: #cbd5e1;
+      --osw-user-background: #0f172a;
+      --osw-user-text: #f8fafc;
+      --osw-assistant-background: #e0f2fe;
+      --osw-assistant-text: #0c4a6e;
+      --osw-agent-background: #dcfce7;
+      --osw-agent-text: #14532d;
+      --osw-button-background: #0f172a;
+      --osw-button-text: #f8fafc;
+      --osw-code-background: #0f172a;
+      --osw-code-text: #e2e8f0;
+      --osw-shadow: 0 18px 50px rgba(15, 23, 42, 0.16);
+
+      font-family: var(--osw-font-family);
+      color: var(--osw-text);
+    }
+
+    :host([data-theme="dark"]) {
+      --osw-text: #e2e8f0;
+      --osw-muted: #94a3b8;
+      --osw-background: #0f172a;
+      --osw-background-alt: #111827;
+      --osw-border: #1e293b;
+      --osw-input-background: #1e293b;
+      --osw-input-border: #334155;
+      --osw-user-background: #e2e8f0;
+      --osw-user-text: #0f172a;
+      --osw-assistant-background: #1e293b;
+      --osw-assistant-text: #e0f2fe;
+      --osw-agent-background: #14532d;
+      --osw-agent-text: #dcfce7;
+      --osw-button-background: #e2e8f0;
+      --osw-button-text: #0f172a;
+      --osw-code-background: #020617;
+      --osw-shadow: 0 18px 50px rgba(0, 0, 0, 0.5);
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :host([data-theme="auto"]) {
+        --osw-text: #e2e8f0;
+        --osw-muted: #94a3b8;
+        --osw-background: #0f172a;
+        --osw-background-alt: #111827;
+        --osw-border: #1e293b;
+        --osw-input-background: #1e293b;
+        --osw-input-border: #334155;
+        --osw-user-background: #e2e8f0;
+        --osw-user-text: #0f172a;
+        --osw-assistant-background: #1e293b;
+        --osw-assistant-text: #e0f2fe;
+        --osw-agent-background: #14532d;
+        --osw-agent-text: #dcfce7;
+        --osw-button-background: #e2e8f0;
+        --osw-button-text: #0f172a;
+        --osw-code-background: #020617;
+        --osw-shadow: 0 18px 50px rgba(0, 0, 0, 0.5);
+      }
     }
 
-    #${ROOT_ID}[data-position="left"] {
+    :host([data-position="left"]) {
       right: auto;
       left: 24px;
     }
 
-    #${ROOT_ID} * {
+    * {
       box-sizing: border-box;
       font-family: inherit;
     }
 
-    #${ROOT_ID} .osw-toggle {
+    .osw-toggle {
+      display: grid;
+      place-items: center;
       border: none;
-      width: 62px;
-      height: 62px;
-      border-radius: 18px;
-      background: linear-gradient(130deg, ${accentColor}, #1e293b);
-      color: #f8fafc;
+      width: var(--osw-launcher-size);
+      height: var(--osw-launcher-size);
+      padding: 0;
+      border-radius: calc(var(--osw-radius) * 0.8);
+      background: linear-gradient(130deg, var(--osw-accent), #1e293b);
+      color: var(--osw-accent-contrast);
+      font-size: 15px;
       font-weight: 700;
       cursor: pointer;
       box-shadow: 0 16px 40px rgba(15, 23, 42, 0.3);
       transition: transform 0.2s ease;
     }
 
-    #${ROOT_ID} .osw-toggle:hover {
+    :host([data-position="left"]) .osw-toggle {
+      margin-right: auto;
+    }
+
+    :host([data-position="right"]) .osw-toggle {
+      margin-left: auto;
+    }
+
+    .osw-toggle:hover {
       transform: translateY(-2px);
     }
 
-    #${ROOT_ID} .osw-panel {
-      width: min(360px, calc(100vw - 24px));
-      height: 520px;
+    .osw-toggle img {
+      width: 60%;
+      height: 60%;
+      object-fit: contain;
+    }
+
+    .osw-panel {
+      width: min(var(--osw-panel-width), calc(100vw - 24px));
+      height: var(--osw-panel-height);
       max-height: calc(100vh - 120px);
-      background: radial-gradient(circle at top right, #f0f9ff 0%, #ffffff 40%);
-      border: 1px solid #dbeafe;
-      border-radius: 22px;
-      box-shadow: 0 18px 50px rgba(15, 23, 42, 0.16);
+      background: var(--osw-background);
+      border: 1px solid var(--osw-border);
+      border-radius: var(--osw-radius);
+      box-shadow: var(--osw-shadow);
       margin-bottom: 12px;
       display: none;
       overflow: hidden;
@@ -122,96 +442,344 @@ function createStyles(accentColor: string): string {
       animation: osw-fade-in 160ms ease;
     }
 
-    #${ROOT_ID}[data-open="true"] .osw-panel {
+    :host([data-open="true"]) .osw-panel {
       display: flex;
       flex-direction: column;
     }
 
-    #${ROOT_ID} .osw-header {
-      background: linear-gradient(130deg, ${accentColor}, #1e3a8a);
-      color: #ffffff;
+    .osw-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      background: linear-gradient(130deg, var(--osw-accent), #1e3a8a);
+      color: var(--osw-accent-contrast);
       padding: 16px;
       font-size: 15px;
       font-weight: 700;
       letter-spacing: 0.2px;
     }
 
-    #${ROOT_ID} .osw-messages {
+    .osw-handoff {
+      border: 1px solid rgba(255, 255, 255, 0.6);
+      border-radius: 999px;
+      padding: 4px 10px;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+      background: transparent;
+      color: inherit;
+    }
+
+    .osw-handoff:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .osw-header-actions {
+      display: flex;
+      gap: 6px;
+    }
+
+    .osw-messages {
       flex: 1;
       overflow-y: auto;
       padding: 14px;
       display: flex;
       flex-direction: column;
       gap: 10px;
-      background: linear-gradient(0deg, #ffffff, #f8fafc);
+      background: linear-gradient(0deg, var(--osw-background), var(--osw-background-alt));
     }
 
-    #${ROOT_ID} .osw-message {
+    .osw-message {
       max-width: 85%;
-      border-radius: 14px;
+      border-radius: var(--osw-message-radius);
       padding: 10px 12px;
-      font-size: 14px;
+      font-size: var(--osw-font-size);
       line-height: 1.45;
       white-space: pre-wrap;
       word-break: break-word;
     }
 
-    #${ROOT_ID} .osw-message-user {
+    .osw-markdown {
+      white-space: normal;
+    }
+
+    .osw-markdown > :first-child,
+    .osw-markdown > div > :first-child {
+      margin-top: 0;
+    }
+
+    .osw-markdown > :last-child,
+    .osw-markdown > div > :last-child {
+      margin-bottom: 0;
+    }
+
+    .osw-markdown p,
+    .osw-markdown ul,
+    .osw-markdown ol,
+    .osw-markdown pre,
+    .osw-markdown blockquote,
+    .osw-markdown table {
+      margin: 0 0 8px;
+    }
+
+    .osw-markdown h1,
+    .osw-markdown h2,
+    .osw-markdown h3,
+    .osw-markdown h4,
+    .osw-markdown h5,
+    .osw-markdown h6 {
+      margin: 10px 0 6px;
+      font-size: 15px;
+      line-height: 1.3;
+    }
+
+    .osw-markdown ul,
+    .osw-markdown ol {
+      padding-left: 20px;
+    }
+
+    .osw-markdown code {
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      font-size: 12px;
+      background: rgba(127, 127, 127, 0.16);
+      border-radius: 4px;
+      padding: 1px 4px;
+    }
+
+    .osw-markdown pre {
+      overflow-x: auto;
+      background: var(--osw-code-background);
+      color: var(--osw-code-text);
+      border-radius: 8px;
+      padding: 8px 10px;
+    }
+
+    .osw-markdown pre code {
+      background: none;
+      padding: 0;
+      color: inherit;
+    }
+
+    .osw-markdown blockquote {
+      border-left: 3px solid currentColor;
+      padding-left: 8px;
+      opacity: 0.85;
+    }
+
+    .osw-markdown a {
+      color: inherit;
+      text-decoration: underline;
+    }
+
+    .osw-markdown table {
+      display: block;
+      overflow-x: auto;
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+
+    .osw-markdown th,
+    .osw-markdown td {
+      border: 1px solid rgba(127, 127, 127, 0.3);
+      padding: 4px 6px;
+      text-align: left;
+    }
+
+    .osw-markdown hr {
+      border: none;
+      border-top: 1px solid rgba(127, 127, 127, 0.3);
+      margin: 8px 0;
+    }
+
+    .osw-unavailable {
+      padding: 8px 16px;
+      font-size: 13px;
+      background: #fef3c7;
+      color: #92400e;
+      border-bottom: 1px solid #fde68a;
+    }
+
+    .osw-unavailable[hidden] {
+      display: none;
+    }
+
+    .osw-tool-status {
+      font-style: italic;
+      opacity: 0.8;
+    }
+
+    .osw-message-user {
       align-self: flex-end;
-      background: #0f172a;
-      color: #f8fafc;
+      background: var(--osw-user-background);
+      color: var(--osw-user-text);
       border-bottom-right-radius: 6px;
     }
 
-    #${ROOT_ID} .osw-message-assistant {
+    .osw-message-assistant {
+      align-self: flex-start;
+      background: var(--osw-assistant-background);
+      color: var(--osw-assistant-text);
+      border-bottom-left-radius: 6px;
+    }
+
+    .osw-message-agent {
       align-self: flex-start;
-      background: #e0f2fe;
-      color: #0c4a6e;
+      background: var(--osw-agent-background);
+      color: var(--osw-agent-text);
       border-bottom-left-radius: 6px;
     }
 
-    #${ROOT_ID} .osw-input-wrap {
-      border-top: 1px solid #e2e8f0;
+    .osw-feedback {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 4px;
+      margin-top: 6px;
+      font-size: 12px;
+    }
+
+    .osw-feedback-button {
+      border: 1px solid transparent;
+      border-radius: 8px;
+      padding: 2px 6px;
+      font-size: 13px;
+      line-height: 1.2;
+      cursor: pointer;
+      background: transparent;
+      opacity: 0.6;
+    }
+
+    .osw-feedback-button:hover,
+    .osw-feedback-button[aria-pressed="true"] {
+      opacity: 1;
+      border-color: currentColor;
+    }
+
+    .osw-feedback-comment {
+      display: flex;
+      flex: 1 1 100%;
+      gap: 4px;
+    }
+
+    .osw-feedback-comment[hidden] {
+      display: none;
+    }
+
+    .osw-feedback-comment input {
+      flex: 1;
+      min-width: 0;
+      border: 1px solid var(--osw-input-border);
+      border-radius: 8px;
+      padding: 4px 8px;
+      font: inherit;
+      background: var(--osw-input-background);
+      color: var(--osw-text);
+    }
+
+    .osw-feedback-comment button {
+      border: none;
+      border-radius: 8px;
+      padding: 4px 8px;
+      font-size: 12px;
+      font-weight: 700;
+      cursor: pointer;
+      background: var(--osw-button-background);
+      color: var(--osw-button-text);
+    }
+
+    .osw-message-author {
+      display: block;
+      font-size: 11px;
+      font-weight: 700;
+      margin-bottom: 2px;
+    }
+
+    .osw-sources {
+      align-self: flex-start;
+      max-width: 85%;
+      margin-top: -4px;
+      font-size: 12px;
+      color: var(--osw-muted);
+    }
+
+    .osw-sources ol {
+      margin: 4px 0 0;
+      padding-left: 18px;
+    }
+
+    .osw-sources a {
+      color: var(--osw-accent);
+    }
+
+    .osw-input-wrap {
+      border-top: 1px solid var(--osw-border);
       padding: 10px;
-      background: #ffffff;
+      background: var(--osw-background);
     }
 
-    #${ROOT_ID} .osw-form {
+    .osw-form {
       display: grid;
       grid-template-columns: 1fr auto;
       gap: 8px;
     }
 
-    #${ROOT_ID} .osw-input {
-      border: 1px solid #cbd5e1;
+    .osw-input {
+      border: 1px solid var(--osw-input-border);
       border-radius: 12px;
       padding: 10px 12px;
-      font-size: 14px;
+      font-size: var(--osw-font-size);
+      background: var(--osw-input-background);
+      color: var(--osw-text);
       outline: none;
       transition: border-color 0.2s ease;
     }
 
-    #${ROOT_ID} .osw-input:focus {
-      border-color: ${accentColor};
+    .osw-input:focus {
+      border-color: var(--osw-accent);
     }
 
-    #${ROOT_ID} .osw-send {
+    .osw-send {
       border: none;
       border-radius: 12px;
       padding: 0 14px;
       font-weight: 700;
       font-size: 13px;
       cursor: pointer;
-      background: #0f172a;
-      color: #f8fafc;
+      background: var(--osw-button-background);
+      color: var(--osw-button-text);
     }
 
-    #${ROOT_ID} .osw-send:disabled {
+    .osw-send:disabled {
       opacity: 0.6;
       cursor: not-allowed;
     }
 
-    #${ROOT_ID} .osw-retry {
+    .osw-stop {
+      border: 1px solid var(--osw-input-border);
+      border-radius: 12px;
+      padding: 0 14px;
+      font-weight: 700;
+      font-size: 13px;
+      cursor: pointer;
+      background: var(--osw-input-background);
+      color: var(--osw-text);
+    }
+
+    .osw-stop:disabled {
+      opacity: 0.6;
+      cursor: not-allowed;
+    }
+
+    .osw-stopped {
+      display: block;
+      margin-top: 6px;
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    .osw-retry {
       margin-top: 8px;
       border: none;
       border-radius: 8px;
@@ -219,8 +787,8 @@ function createStyles(accentColor: string): string {
       font-size: 12px;
       font-weight: 700;
       cursor: pointer;
-      background: #0f172a;
-      color: #f8fafc;
+      background: var(--osw-button-background);
+      color: var(--osw-button-text);
     }
 
     @keyframes osw-fade-in {
@@ -235,17 +803,14 @@ function createStyles(accentColor: string): string {
     }
 
     @media (max-width: 640px) {
-      #${ROOT_ID} {
+      :host,
+      :host([data-position="left"]) {
         right: 12px;
         left: 12px;
         bottom: 12px;
       }
 
-      #${ROOT_ID}[data-position="left"] {
-        left: 12px;
-      }
-
-      #${ROOT_ID} .osw-panel {
+      .osw-panel {
         width: 100%;
         height: min(72vh, 560px);
       }
@@ -253,60 +818,389 @@ function createStyles(accentColor: string): string {
   `;
 }
 
-function parseJsonLine(line: string): StreamEvent | null {
+// Resolves backend routes against the configured chat endpoint, e.g. `/v1/assistants/:id`.
+function resolveApiUrl(config: WidgetConfig, path: string): string {
+  return new URL(path, config.apiUrl).toString();
+}
+
+async function fetchSessionHistory(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string,
+  cursor?: string
+): Promise<SessionHistoryPage | null> {
+  const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+
+  if (cursor !== undefined) {
+    params.set("cursor", cursor);
+  }
+
   try {
-    return JSON.parse(line) as StreamEvent;
+    const response = await fetch(
+      resolveApiUrl(
+        config,
+        `/v1/conversations/${encodeURIComponent(sessionId)}/messages?${params}`
+      ),
+      {
+        headers: createApiHeaders(config, user)
+      }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return (await response.json()) as SessionHistoryPage;
   } catch {
     return null;
   }
 }
 
-function getInitialOpenState(): boolean {
-  return localStorage.getItem(OPEN_STATE_STORAGE_KEY) === "true";
-}
+async function requestHumanHandoff(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string
+): Promise<ConversationStatus | null> {
+  try {
+    const response = await fetch(
+      resolveApiUrl(config, `/v1/conversations/${encodeURIComponent(sessionId)}/handoff`),
+      {
+        method: "POST",
+        headers: createApiHeaders(config, user)
+      }
+    );
 
-function bootstrapWidget() {
-  if (document.getElementById(ROOT_ID)) {
-    return;
+    if (!response.ok) {
+      return null;
+    }
+
+    return ((await response.json()) as { status: ConversationStatus }).status;
+  } catch {
+    return null;
   }
+}
 
-  const script = resolveScriptElement();
-  const config = readConfig(script);
+async function deleteSessionConversation(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      resolveApiUrl(config, `/v1/conversations/${encodeURIComponent(sessionId)}`),
+      {
+        method: "DELETE",
+        headers: createApiHeaders(config, user)
+      }
+    );
 
-  if (!config) {
-    console.error("[os-chat-widget] Missing required data-api-url or data-api-key attributes.");
-    return;
+    return response.ok;
+  } catch {
+    return false;
   }
+}
 
-  const sessionId = getOrCreateSessionId();
-
-  const root = document.createElement("div");
-  root.id = ROOT_ID;
-  root.dataset.open = getInitialOpenState() ? "true" : "false";
-  root.dataset.position = config.position;
+// Null when the stream cannot be resumed (it expired, or another backend instance holds it); throws
+// while the network is still down.
+async function resumeChatStream(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string,
+  streamId: string,
+  after: number,
+  signal: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  const response = await fetch(
+    resolveApiUrl(
+      config,
+      `/v1/conversations/${encodeURIComponent(sessionId)}/streams/${encodeURIComponent(
+        streamId
+      )}?after=${after}`
+    ),
+    {
+      headers: createApiHeaders(config, user),
+      signal
+    }
+  );
 
-  const style = document.createElement("style");
-  style.textContent = createStyles(config.accentColor);
+  return response.ok && response.body ? response.body : null;
+}
 
-  const panel = document.createElement("div");
-  panel.className = "osw-panel";
+async function cancelChatStream(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string,
+  streamId: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      resolveApiUrl(
+        config,
+        `/v1/conversations/${encodeURIComponent(sessionId)}/streams/${encodeURIComponent(
+          streamId
+        )}/cancel`
+      ),
+      {
+        method: "POST",
+        headers: createApiHeaders(config, user)
+      }
+    );
 
-  const header = document.createElement("div");
-  header.className = "osw-header";
-  header.textContent = config.title;
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
 
-  const messages = document.createElement("div");
-  messages.className = "osw-messages";
+async function submitMessageFeedback(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  sessionId: string,
+  messageId: string,
+  rating: FeedbackRating,
+  comment?: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      resolveApiUrl(config, `/v1/messages/${encodeURIComponent(messageId)}/feedback`),
+      {
+        method: "POST",
+        headers: createApiHeaders(config, user, { "Content-Type": "application/json" }),
+        body: JSON.stringify({ sessionId, rating, comment })
+      }
+    );
 
-  const inputWrap = document.createElement("div");
-  inputWrap.className = "osw-input-wrap";
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
 
-  const form = document.createElement("form");
-  form.className = "osw-form";
+async function fetchAssistantProfile(config: WidgetConfig): Promise<AssistantProfile | null> {
+  if (!config.assistantId) {
+    return null;
+  }
 
-  const input = document.createElement("input");
-  input.className = "osw-input";
-  input.type = "text";
+  try {
+    const response = await fetch(
+      resolveApiUrl(config, `/v1/assistants/${encodeURIComponent(config.assistantId)}`),
+      {
+        headers: {
+          "x-widget-api-key": config.apiKey
+        }
+      }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return (await response.json()) as AssistantProfile;
+  } catch {
+    return null;
+  }
+}
+
+// Reads a `text/event-stream` body and hands each `data:` payload to `onEvent`.
+async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ConversationEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+    while (true) {
+      const separatorIndex = buffer.indexOf("\n\n");
+
+      if (separatorIndex === -1) {
+        break;
+      }
+
+      const block = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const data = block
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+
+      if (!data) {
+        continue;
+      }
+
+      try {
+        onEvent(JSON.parse(data) as ConversationEvent);
+      } catch {
+        // Ignore malformed events and keep the subscription alive.
+      }
+    }
+  }
+}
+
+// Reads an NDJSON body and hands each non-empty line to `onLine`.
+async function readJsonLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    while (true) {
+      const newlineIndex = buffer.indexOf("\n");
+
+      if (newlineIndex === -1) {
+        break;
+      }
+
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line) {
+        onLine(line);
+      }
+    }
+  }
+
+  const trailing = buffer.trim();
+  if (trailing) {
+    onLine(trailing);
+  }
+}
+
+// 429 responses carry `Retry-After` in seconds.
+function getRateLimitMessage(response: Response): string {
+  const seconds = Number(response.headers.get("Retry-After"));
+
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return "You are sending messages too quickly. Please wait a moment and try again.";
+  }
+
+  return `You are sending messages too quickly. Please try again in ${seconds} second${
+    seconds === 1 ? "" : "s"
+  }.`;
+}
+
+// The backend answers 503 with `code: "budget_exhausted"` when the AI's spend limit is reached.
+async function isAssistantUnavailable(response: Response): Promise<boolean> {
+  if (response.status !== 503) {
+    return false;
+  }
+
+  try {
+    const body = (await response.json()) as { code?: string };
+    return body.code === "budget_exhausted";
+  } catch {
+    return false;
+  }
+}
+
+function parseJsonLine(line: string): SequencedStreamEvent | null {
+  try {
+    return JSON.parse(line) as SequencedStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+function getInitialOpenState(): boolean {
+  return localStorage.getItem(OPEN_STATE_STORAGE_KEY) === "true";
+}
+
+const eventHandlers = new Map<WidgetEventName, Set<(payload: unknown) => void>>();
+
+function emitWidgetEvent<K extends WidgetEventName>(event: K, payload: WidgetEventMap[K]) {
+  for (const handler of eventHandlers.get(event) ?? []) {
+    try {
+      handler(payload);
+    } catch (error) {
+      console.error(`[os-chat-widget] "${event}" handler failed`, error);
+    }
+  }
+}
+
+function mountWidget(
+  config: WidgetConfig,
+  user: WidgetUser | null,
+  initialOpen: boolean
+): WidgetInstance {
+  const sessionId = getOrCreateSessionId(user);
+
+  const root = document.createElement("div");
+  root.id = ROOT_ID;
+  root.dataset.open = initialOpen ? "true" : "false";
+  root.dataset.position = config.position;
+  root.dataset.theme = config.theme;
+
+  for (const [property, value] of Object.entries(config.themeVariables)) {
+    root.style.setProperty(property, value);
+  }
+
+  // Everything renders inside a shadow root so host-page CSS cannot reach the widget.
+  const shadow = root.attachShadow({ mode: "open" });
+
+  const style = document.createElement("style");
+  style.textContent = createStyles();
+
+  const panel = document.createElement("div");
+  panel.className = "osw-panel";
+
+  const header = document.createElement("div");
+  header.className = "osw-header";
+
+  const headerTitle = document.createElement("span");
+  headerTitle.textContent = config.title;
+
+  const handoffButton = document.createElement("button");
+  handoffButton.className = "osw-handoff";
+  handoffButton.type = "button";
+  handoffButton.textContent = "Talk to a human";
+
+  // Same pill style as the handoff button; removes the conversation and starts a fresh session.
+  const deleteButton = document.createElement("button");
+  deleteButton.className = "osw-handoff";
+  deleteButton.type = "button";
+  deleteButton.textContent = "Delete";
+  deleteButton.setAttribute("aria-label", "Delete conversation");
+
+  const headerActions = document.createElement("div");
+  headerActions.className = "osw-header-actions";
+  headerActions.append(handoffButton, deleteButton);
+
+  header.append(headerTitle, headerActions);
+
+  const messages = document.createElement("div");
+  messages.className = "osw-messages";
+
+  const inputWrap = document.createElement("div");
+  inputWrap.className = "osw-input-wrap";
+
+  const form = document.createElement("form");
+  form.className = "osw-form";
+
+  const input = document.createElement("input");
+  input.className = "osw-input";
+  input.type = "text";
   input.placeholder = config.inputPlaceholder;
   input.required = true;
 
@@ -315,38 +1209,457 @@ function bootstrapWidget() {
   sendButton.type = "submit";
   sendButton.textContent = "Send";
 
+  // Takes the place of Send while a reply streams.
+  const stopButton = document.createElement("button");
+  stopButton.className = "osw-stop";
+  stopButton.type = "button";
+  stopButton.textContent = "Stop";
+  stopButton.hidden = true;
+
   const toggleButton = document.createElement("button");
   toggleButton.className = "osw-toggle";
   toggleButton.type = "button";
   toggleButton.setAttribute("aria-label", "Toggle chat");
 
-  form.append(input, sendButton);
+  form.append(input, sendButton, stopButton);
   inputWrap.append(form);
-  panel.append(header, messages, inputWrap);
-  root.append(style, panel, toggleButton);
+  const unavailableBanner = document.createElement("div");
+  unavailableBanner.className = "osw-unavailable";
+  unavailableBanner.setAttribute("role", "status");
+  unavailableBanner.textContent = ASSISTANT_UNAVAILABLE_NOTICE;
+  unavailableBanner.hidden = true;
+
+  panel.append(header, unavailableBanner, messages, inputWrap);
+  shadow.append(style, panel, toggleButton);
   document.body.append(root);
 
   function scrollToBottom() {
     messages.scrollTop = messages.scrollHeight;
   }
 
+  function renderLauncher(isOpen: boolean) {
+    const icon = config.launcherIcon;
+
+    if (!isOpen && icon && /^(https?:\/\/|\/|data:image\/)/i.test(icon)) {
+      const image = document.createElement("img");
+      image.src = icon;
+      image.alt = "";
+      toggleButton.replaceChildren(image);
+      return;
+    }
+
+    toggleButton.textContent = isOpen ? "×" : icon || DEFAULT_LAUNCHER_LABEL;
+  }
+
   function setOpenState(isOpen: boolean) {
     root.dataset.open = isOpen ? "true" : "false";
-    toggleButton.textContent = isOpen ? "×" : "AI";
+    renderLauncher(isOpen);
     localStorage.setItem(OPEN_STATE_STORAGE_KEY, isOpen ? "true" : "false");
   }
 
-  function addMessage(role: "user" | "assistant", text: string): HTMLDivElement {
+  function createMessageElement(
+    role: "user" | "assistant" | "agent",
+    text: string
+  ): HTMLDivElement {
     const message = document.createElement("div");
-    message.className = `osw-message ${role === "user" ? "osw-message-user" : "osw-message-assistant"}`;
-    message.textContent = text;
+    message.className = `osw-message osw-message-${role}`;
+
+    // Visitors type plain text; only support-side replies are rendered as markdown.
+    if (role === "user") {
+      message.textContent = text;
+    } else {
+      message.classList.add("osw-markdown");
+      setMarkdownContent(message, text);
+    }
+
+    return message;
+  }
+
+  function addMessage(role: "user" | "assistant" | "agent", text: string): HTMLDivElement {
+    const message = createMessageElement(role, text);
     messages.append(message);
     scrollToBottom();
     return message;
   }
 
-  addMessage("assistant", config.welcomeMessage);
+  let conversationStatus: ConversationStatus = "ai";
+  let lastEventAt: number | null = null;
+  let eventsController: AbortController | null = null;
+  let reconnectTimer: number | null = null;
+  let reconnectAttempts = 0;
+  let isSending = false;
+  let sendController: AbortController | null = null;
+  let activeStreamId: string | null = null;
+  // A stopped reply shown from the stream, until its saved copy arrives over live events.
+  let stoppedReplyEl: HTMLDivElement | null = null;
+  let historyCursor: string | null = null;
+  let hasMoreHistory = false;
+  let isLoadingHistory = false;
+  let hasConversation = false;
+  const renderedMessageIds = new Set<string>();
+  const pendingMessages: SessionMessage[] = [];
+
+  // Thumbs up and down under a stored assistant reply; after rating, the visitor may add a comment.
+  function createFeedbackControls(messageId: string): HTMLDivElement {
+    const container = document.createElement("div");
+    container.className = "osw-feedback";
+
+    const commentForm = document.createElement("form");
+    commentForm.className = "osw-feedback-comment";
+    commentForm.hidden = true;
+
+    const commentInput = document.createElement("input");
+    commentInput.type = "text";
+    commentInput.placeholder = "Tell us more (optional)";
+    commentInput.maxLength = 1000;
+
+    const commentButton = document.createElement("button");
+    commentButton.type = "submit";
+    commentButton.textContent = "Send";
+
+    commentForm.append(commentInput, commentButton);
+
+    const ratings: FeedbackRating[] = ["up", "down"];
+    let selected: FeedbackRating | null = null;
+
+    const buttons = ratings.map((rating) => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "osw-feedback-button";
+      button.textContent = rating === "up" ? "👍" : "👎";
+      button.setAttribute("aria-label", rating === "up" ? "Helpful" : "Not helpful");
+      button.setAttribute("aria-pressed", "false");
+      return button;
+    });
+
+    const renderSelection = () => {
+      buttons.forEach((button, index) => {
+        button.setAttribute("aria-pressed", String(ratings[index] === selected));
+      });
+    };
+
+    buttons.forEach((button, index) => {
+      button.addEventListener("click", async () => {
+        const rating = ratings[index];
+
+        if (rating === selected) {
+          return;
+        }
+
+        const previous = selected;
+        selected = rating;
+        renderSelection();
+
+        if (!(await submitMessageFeedback(config, user, sessionId, messageId, rating))) {
+          selected = previous;
+          renderSelection();
+          return;
+        }
+
+        commentForm.hidden = false;
+        emitWidgetEvent("feedback", { messageId, rating });
+      });
+    });
+
+    commentForm.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const comment = commentInput.value.trim();
+
+      if (!comment || !selected) {
+        return;
+      }
+
+      commentButton.disabled = true;
+      const rating = selected;
+
+      if (!(await submitMessageFeedback(config, user, sessionId, messageId, rating, comment))) {
+        commentButton.disabled = false;
+        return;
+      }
+
+      const thanks = document.createElement("span");
+      thanks.textContent = "Thanks for your feedback.";
+      commentForm.replaceWith(thanks);
+      emitWidgetEvent("feedback", { messageId, rating, comment });
+    });
+
+    container.append(...buttons, commentForm);
+    return container;
+  }
+
+  function createStoppedNote(): HTMLSpanElement {
+    const note = document.createElement("span");
+    note.className = "osw-stopped";
+    note.textContent = "Stopped";
+    return note;
+  }
+
+  function createSessionMessageElement(message: SessionMessage): HTMLDivElement {
+    if (message.role !== "agent") {
+      const element = createMessageElement(message.role, message.content);
+
+      if (message.interrupted) {
+        element.append(createStoppedNote());
+      }
+
+      if (message.role === "assistant") {
+        element.append(createFeedbackControls(message._id));
+      }
+
+      return element;
+    }
+
+    const element = createMessageElement("agent", "");
+    const author = document.createElement("span");
+    author.className = "osw-message-author";
+    author.textContent = message.authorName || "Support team";
+
+    const body = document.createElement("div");
+    setMarkdownContent(body, message.content);
+
+    element.append(author, body);
+    return element;
+  }
+
+  function renderSessionMessage(message: SessionMessage) {
+    if (renderedMessageIds.has(message._id)) {
+      return;
+    }
+
+    renderedMessageIds.add(message._id);
+
+    // A reply stopped by dropping the connection is saved after the stream was left, so it arrives
+    // here rather than in a `done` event; it replaces the partial bubble and gains feedback controls.
+    if (message.role === "assistant" && message.interrupted && stoppedReplyEl) {
+      stoppedReplyEl.replaceWith(createSessionMessageElement(message));
+      stoppedReplyEl = null;
+    } else {
+      messages.append(createSessionMessageElement(message));
+    }
+
+    scrollToBottom();
+    emitWidgetEvent("message", {
+      role: message.role,
+      content: message.content,
+      messageId: message._id,
+      authorName: message.authorName
+    });
+  }
+
+  // Loads the page of history older than what is on screen and inserts it below the welcome
+  // message, keeping the visible messages where they are.
+  async function loadOlderMessages(): Promise<SessionHistoryPage | null> {
+    isLoadingHistory = true;
+    const page = await fetchSessionHistory(config, user, sessionId, historyCursor ?? undefined);
+    isLoadingHistory = false;
+
+    if (!page) {
+      return null;
+    }
+
+    hasMoreHistory = page.hasMore;
+    historyCursor = page.cursor;
+
+    const elements = page.messages
+      .filter((message) => !renderedMessageIds.has(message._id))
+      .map((message) => {
+        renderedMessageIds.add(message._id);
+        return createSessionMessageElement(message);
+      });
+
+    if (elements.length > 0) {
+      const previousScrollHeight = messages.scrollHeight;
+      welcomeMessageEl.after(...elements);
+      messages.scrollTop += messages.scrollHeight - previousScrollHeight;
+    }
+
+    return page;
+  }
+
+  async function restoreHistory() {
+    const page = await loadOlderMessages();
+
+    if (page) {
+      setConversationStatus(page.status);
+      hasConversation = hasConversation || page.messages.length > 0;
+
+      // Live events pick up right after the newest restored message.
+      const newest = page.messages[page.messages.length - 1];
+      if (newest && lastEventAt === null) {
+        lastEventAt = newest.createdAt;
+      }
+    }
+
+    scrollToBottom();
+    syncEventSubscription();
+  }
+
+  function flushPendingMessages() {
+    for (const message of pendingMessages.splice(0)) {
+      renderSessionMessage(message);
+    }
+  }
+
+  function handleConversationEvent(event: ConversationEvent) {
+    reconnectAttempts = 0;
+
+    if (event.type === "ready") {
+      lastEventAt ??= event.now;
+      setConversationStatus(event.status);
+      return;
+    }
+
+    if (event.type === "status") {
+      setConversationStatus(event.status);
+      return;
+    }
+
+    lastEventAt = Math.max(lastEventAt ?? 0, event.message.createdAt);
+
+    // Our own turns are rendered by the chat stream; hold events until its message IDs are known.
+    if (isSending) {
+      pendingMessages.push(event.message);
+      return;
+    }
+
+    renderSessionMessage(event.message);
+  }
+
+  async function connectEvents() {
+    const controller = new AbortController();
+    eventsController = controller;
+
+    const query = lastEventAt === null ? "" : `?after=${lastEventAt}`;
+
+    try {
+      const response = await fetch(
+        resolveApiUrl(config, `/v1/conversations/${encodeURIComponent(sessionId)}/events${query}`),
+        {
+          headers: createApiHeaders(config, user, { Accept: "text/event-stream" }),
+          signal: controller.signal
+        }
+      );
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      await readServerSentEvents(response.body, handleConversationEvent);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      console.warn("[os-chat-widget] Live updates disconnected", error);
+    }
+
+    if (eventsController === controller) {
+      scheduleReconnect();
+    }
+  }
+
+  function scheduleReconnect() {
+    const delay = Math.min(
+      EVENTS_RECONNECT_MAX_DELAY_MS,
+      EVENTS_RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts
+    );
+    reconnectAttempts += 1;
+
+    // Jitter spreads reconnects out when the backend restarts under many open widgets.
+    reconnectTimer = window.setTimeout(
+      () => {
+        reconnectTimer = null;
+        void connectEvents();
+      },
+      delay / 2 + Math.random() * (delay / 2)
+    );
+  }
+
+  // Live updates (agent replies, turns from other tabs) are only streamed while the panel is open.
+  function syncEventSubscription() {
+    const isOpen = root.dataset.open === "true";
+
+    if (isOpen && eventsController === null) {
+      reconnectAttempts = 0;
+      void connectEvents();
+    }
+
+    if (!isOpen && eventsController !== null) {
+      eventsController.abort();
+      eventsController = null;
+
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+    }
+  }
+
+  function setConversationStatus(status: ConversationStatus) {
+    conversationStatus = status;
+
+    // A human agent can still answer when the AI is out of budget.
+    if (status === "pending_human" || status === "human") {
+      unavailableBanner.hidden = true;
+    }
+
+    handoffButton.disabled = status === "pending_human" || status === "human";
+    handoffButton.textContent = status === "human" ? "Chatting with support" : "Talk to a human";
+  }
+
+  function addSources(sources: ChatSource[]) {
+    // Several chunks of the same document collapse into a single citation.
+    const uniqueSources = sources.filter(
+      (source, index) =>
+        sources.findIndex((candidate) => candidate.documentId === source.documentId) === index
+    );
+
+    if (uniqueSources.length === 0) {
+      return;
+    }
+
+    const container = document.createElement("div");
+    container.className = "osw-sources";
+    container.textContent = "Sources:";
+
+    const list = document.createElement("ol");
+
+    for (const source of uniqueSources) {
+      const item = document.createElement("li");
+
+      if (source.sourceUrl && /^https?:\/\//i.test(source.sourceUrl)) {
+        const link = document.createElement("a");
+        link.href = source.sourceUrl;
+        link.target = "_blank";
+        link.rel = "noopener noreferrer";
+        link.textContent = source.title;
+        item.append(link);
+      } else {
+        item.textContent = source.title;
+      }
+
+      list.append(item);
+    }
+
+    container.append(list);
+    messages.append(container);
+    scrollToBottom();
+  }
+
+  const welcomeMessageEl = addMessage(
+    "assistant",
+    config.welcomeMessage || DEFAULT_WELCOME_MESSAGE
+  );
   setOpenState(root.dataset.open === "true");
+  void restoreHistory();
+
+  if (config.assistantId && !config.welcomeMessage) {
+    void fetchAssistantProfile(config).then((profile) => {
+      if (profile?.welcomeMessage) {
+        setMarkdownContent(welcomeMessageEl, profile.welcomeMessage);
+      }
+    });
+  }
 
   function startTypingIndicator(target: HTMLDivElement): () => void {
     const frames = ["Thinking", "Thinking.", "Thinking..", "Thinking..."];
@@ -364,8 +1677,11 @@ function bootstrapWidget() {
     };
   }
 
-  async function submitMessage(rawText: string) {
-    addMessage("user", rawText);
+  // Retrying passes the same idempotency key, so the server replays the first attempt's reply
+  // instead of storing the message again.
+  async function submitMessage(rawText: string, idempotencyKey = generateId()) {
+    const userMessageEl = addMessage("user", rawText);
+    emitWidgetEvent("message", { role: "user", content: rawText });
     const assistantMessageEl = addMessage("assistant", "");
     const stopTypingIndicator = startTypingIndicator(assistantMessageEl);
     let indicatorStopped = false;
@@ -378,30 +1694,63 @@ function bootstrapWidget() {
       stopTypingIndicator();
     };
 
+    const controller = new AbortController();
+    let assembled = "";
+    let streamId = "";
+    let lastSeq = 0;
+    let streamEnded = false;
+
     sendButton.disabled = true;
+    sendButton.hidden = true;
+    // Enabled once `start` confirms the visitor's message was saved and its ID is known.
+    stopButton.disabled = true;
+    stopButton.hidden = false;
     input.disabled = true;
+    isSending = true;
+    sendController = controller;
+    stoppedReplyEl = null;
 
     try {
       const response = await fetch(config.apiUrl, {
         method: "POST",
-        headers: {
+        headers: createApiHeaders(config, user, {
           "Content-Type": "application/json",
-          "x-widget-api-key": config.apiKey
-        },
+          "Idempotency-Key": idempotencyKey
+        }),
         body: JSON.stringify({
           sessionId,
-          message: rawText
-        })
+          message: rawText,
+          assistantId: config.assistantId
+        }),
+        signal: controller.signal
       });
 
+      if (response.status === 429) {
+        const message = getRateLimitMessage(response);
+        stopIndicatorOnce();
+        assistantMessageEl.textContent = message;
+        scrollToBottom();
+        emitWidgetEvent("error", { error: message });
+        return;
+      }
+
+      if (await isAssistantUnavailable(response)) {
+        stopIndicatorOnce();
+        assistantMessageEl.remove();
+        unavailableBanner.hidden = false;
+        scrollToBottom();
+        emitWidgetEvent("error", { error: ASSISTANT_UNAVAILABLE_NOTICE });
+        return;
+      }
+
       if (!response.ok || !response.body) {
         throw new Error(`Request failed with status ${response.status}`);
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let assembled = "";
+      unavailableBanner.hidden = true;
+      let sources: ChatSource[] = [];
+      let handedOff = false;
+      let toolLabelShown = false;
 
       const processLine = (line: string) => {
         const payload = parseJsonLine(line);
@@ -410,67 +1759,201 @@ function bootstrapWidget() {
           return;
         }
 
+        // A resumed stream may repeat events that were already shown.
+        if (payload.seq !== undefined) {
+          if (payload.seq <= lastSeq) {
+            return;
+          }
+
+          lastSeq = payload.seq;
+        }
+
+        if (payload.type === "start") {
+          renderedMessageIds.add(payload.userMessageId);
+          streamId = payload.streamId ?? "";
+          activeStreamId = streamId || null;
+          stopButton.disabled = false;
+
+          if (!hasConversation) {
+            hasConversation = true;
+            emitWidgetEvent("conversation_start", {
+              conversationId: payload.conversationId,
+              sessionId
+            });
+          }
+        }
+
+        if (payload.type === "sources") {
+          sources = payload.sources;
+        }
+
+        if (payload.type === "handoff") {
+          stopIndicatorOnce();
+          handedOff = true;
+          assistantMessageEl.remove();
+
+          if (payload.status === "pending_human" && conversationStatus !== "pending_human") {
+            addMessage("assistant", HANDOFF_NOTICE);
+          }
+
+          setConversationStatus(payload.status);
+          return;
+        }
+
+        if (payload.type === "tool_call") {
+          stopIndicatorOnce();
+          // Show what the assistant is doing, e.g. "Looking up your order…", until tokens arrive.
+          setMarkdownContent(assistantMessageEl, assembled);
+          const status = document.createElement("p");
+          status.className = "osw-tool-status";
+          status.textContent = payload.label;
+          assistantMessageEl.append(status);
+          toolLabelShown = true;
+          scrollToBottom();
+        }
+
         if (payload.type === "token") {
           stopIndicatorOnce();
+          if (toolLabelShown) {
+            toolLabelShown = false;
+            if (assembled) {
+              assembled += "\n\n";
+            }
+          }
           assembled += payload.token;
-          assistantMessageEl.textContent = assembled;
+          setMarkdownContent(assistantMessageEl, assembled);
           scrollToBottom();
         }
 
         if (payload.type === "done") {
+          streamEnded = true;
+
+          if (payload.messageId) {
+            renderedMessageIds.add(payload.messageId);
+          }
+
+          if (handedOff) {
+            return;
+          }
+
           stopIndicatorOnce();
-          assistantMessageEl.textContent = payload.message;
+
+          // Stopped before any text was generated; nothing was saved.
+          if (payload.interrupted && !payload.message) {
+            assistantMessageEl.remove();
+            return;
+          }
+
+          setMarkdownContent(assistantMessageEl, payload.message);
           assembled = payload.message;
+
+          if (payload.interrupted) {
+            assistantMessageEl.append(createStoppedNote());
+          }
+
+          if (payload.messageId) {
+            assistantMessageEl.append(createFeedbackControls(payload.messageId));
+          }
+
           scrollToBottom();
+          emitWidgetEvent("message", {
+            role: "assistant",
+            content: payload.message,
+            messageId: payload.messageId
+          });
         }
 
         if (payload.type === "error") {
+          streamEnded = true;
           stopIndicatorOnce();
           assistantMessageEl.textContent = payload.error;
           scrollToBottom();
+          emitWidgetEvent("error", { error: payload.error });
         }
       };
 
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          break;
+      const followStream = async (body: ReadableStream<Uint8Array>) => {
+        try {
+          await readJsonLines(body, processLine);
+        } catch (error) {
+          // Without a stream ID there is nothing to resume.
+          if (controller.signal.aborted || !streamId) {
+            throw error;
+          }
         }
+      };
 
-        buffer += decoder.decode(value, { stream: true });
+      await followStream(response.body);
 
-        while (true) {
-          const newlineIndex = buffer.indexOf("\n");
+      // The connection dropped mid-reply: pick the stream up after the last event seen instead of
+      // sending the message again.
+      for (let attempt = 1; !streamEnded && streamId; attempt += 1) {
+        if (attempt > STREAM_RESUME_ATTEMPTS) {
+          throw new Error("Lost the connection to the reply stream");
+        }
 
-          if (newlineIndex === -1) {
-            break;
+        await new Promise((resolve) =>
+          window.setTimeout(resolve, STREAM_RESUME_BASE_DELAY_MS * 2 ** (attempt - 1))
+        );
+
+        let body: ReadableStream<Uint8Array> | null;
+
+        try {
+          body = await resumeChatStream(
+            config,
+            user,
+            sessionId,
+            streamId,
+            lastSeq,
+            controller.signal
+          );
+        } catch (error) {
+          if (controller.signal.aborted) {
+            throw error;
           }
 
-          const line = buffer.slice(0, newlineIndex).trim();
-          buffer = buffer.slice(newlineIndex + 1);
-
-          if (!line) {
-            continue;
-          }
+          continue;
+        }
 
-          processLine(line);
+        if (!body) {
+          throw new Error("The reply stream is no longer available");
         }
+
+        await followStream(body);
       }
 
-      const trailing = buffer.trim();
-      if (trailing) {
-        processLine(trailing);
+      if (handedOff || !assistantMessageEl.isConnected) {
+        return;
       }
 
       if (!assistantMessageEl.textContent) {
         stopIndicatorOnce();
         assistantMessageEl.textContent = "I could not generate a response right now.";
       }
+
+      addSources(sources);
     } catch (error) {
       stopIndicatorOnce();
+
+      // Stop dropped the connection because the cancel request failed. The server saves the partial
+      // reply once nobody resumes the stream, and drops an empty one.
+      if (controller.signal.aborted) {
+        if (assembled) {
+          setMarkdownContent(assistantMessageEl, assembled);
+          assistantMessageEl.append(createStoppedNote());
+          stoppedReplyEl = assistantMessageEl;
+        } else {
+          assistantMessageEl.remove();
+        }
+
+        return;
+      }
+
       console.error("[os-chat-widget] Failed to send message", error);
       assistantMessageEl.textContent = "Something went wrong. Please try again.";
+      emitWidgetEvent("error", {
+        error: error instanceof Error ? error.message : "Failed to send message"
+      });
 
       const retryButton = document.createElement("button");
       retryButton.type = "button";
@@ -479,13 +1962,21 @@ function bootstrapWidget() {
       retryButton.addEventListener("click", async () => {
         retryButton.disabled = true;
         retryButton.textContent = "Retrying...";
-        await submitMessage(rawText);
+        userMessageEl.remove();
+        assistantMessageEl.remove();
+        await submitMessage(rawText, idempotencyKey);
       });
 
       assistantMessageEl.appendChild(document.createElement("br"));
       assistantMessageEl.appendChild(retryButton);
     } finally {
       stopIndicatorOnce();
+      isSending = false;
+      sendController = null;
+      activeStreamId = null;
+      flushPendingMessages();
+      stopButton.hidden = true;
+      sendButton.hidden = false;
       sendButton.disabled = false;
       input.disabled = false;
       input.focus();
@@ -504,15 +1995,233 @@ function bootstrapWidget() {
     await submitMessage(rawText);
   });
 
-  toggleButton.addEventListener("click", () => {
-    const isOpen = root.dataset.open === "true";
-    setOpenState(!isOpen);
+  stopButton.addEventListener("click", async () => {
+    stopButton.disabled = true;
+    const controller = sendController;
 
-    if (!isOpen) {
+    // Cancelling ends the stream with the saved partial reply; dropping the connection is the
+    // fallback when the server could not be reached.
+    if (!activeStreamId || !(await cancelChatStream(config, user, sessionId, activeStreamId))) {
+      controller?.abort();
+    }
+  });
+
+  handoffButton.addEventListener("click", async () => {
+    handoffButton.disabled = true;
+    const status = await requestHumanHandoff(config, user, sessionId);
+
+    if (!status) {
+      handoffButton.disabled = false;
+      addMessage("assistant", "We could not reach our team right now. Please try again.");
+      return;
+    }
+
+    if (status === "pending_human") {
+      addMessage("assistant", HANDOFF_NOTICE);
+    }
+
+    setConversationStatus(status);
+  });
+
+  async function deleteConversation(): Promise<boolean> {
+    deleteButton.disabled = true;
+
+    if (!(await deleteSessionConversation(config, user, sessionId))) {
+      deleteButton.disabled = false;
+      addMessage("assistant", "We could not delete this conversation right now. Please try again.");
+      return false;
+    }
+
+    // The next mount generates a new session ID, so nothing points at the erased conversation.
+    forgetSession(user);
+    emitWidgetEvent("conversation_deleted", { sessionId });
+    restartWidget();
+    return true;
+  }
+
+  deleteButton.addEventListener("click", () => {
+    if (window.confirm(DELETE_CONFIRMATION)) {
+      void deleteConversation();
+    }
+  });
+
+  messages.addEventListener("scroll", () => {
+    if (messages.scrollTop < HISTORY_SCROLL_THRESHOLD_PX && hasMoreHistory && !isLoadingHistory) {
+      void loadOlderMessages();
+    }
+  });
+
+  function setOpen(isOpen: boolean) {
+    if ((root.dataset.open === "true") === isOpen) {
+      return;
+    }
+
+    setOpenState(isOpen);
+    syncEventSubscription();
+
+    if (isOpen) {
       input.focus();
       scrollToBottom();
     }
+
+    emitWidgetEvent(isOpen ? "open" : "close", undefined);
+  }
+
+  toggleButton.addEventListener("click", () => {
+    setOpen(root.dataset.open !== "true");
   });
+
+  emitWidgetEvent("ready", { sessionId });
+
+  return {
+    setOpen,
+    isOpen() {
+      return root.dataset.open === "true";
+    },
+    async sendMessage(text) {
+      const rawText = text.trim();
+
+      if (!rawText || isSending) {
+        return;
+      }
+
+      setOpen(true);
+      await submitMessage(rawText);
+    },
+    deleteConversation,
+    destroy() {
+      // Closing first tears down the live events subscription and any pending reconnect.
+      root.dataset.open = "false";
+      syncEventSubscription();
+      sendController?.abort();
+      root.remove();
+    }
+  };
+}
+
+let activeWidget: WidgetInstance | null = null;
+let activeConfig: WidgetConfig | null = null;
+let activeUser: WidgetUser | null = null;
+
+function normalizeUser(user: WidgetUserOptions | null | undefined): WidgetUser | null {
+  const token = typeof user?.token === "string" ? user.token.trim() || undefined : undefined;
+  const userId =
+    (typeof user?.userId === "string" ? user.userId.trim() : "") ||
+    (token ? readTokenUserId(token) : undefined);
+
+  if (!user || !userId) {
+    return null;
+  }
+
+  return { userId, email: user.email, name: user.name, token };
+}
+
+function resolveInitialUser(options: Record<string, unknown>): WidgetUser | null {
+  const token = readOption(options, "userToken");
+  return token ? normalizeUser({ token }) : activeUser;
+}
+
+function startWidget(config: WidgetConfig, user: WidgetUser | null, open?: boolean) {
+  if (!document.body) {
+    document.addEventListener("DOMContentLoaded", () => startWidget(config, user, open), {
+      once: true
+    });
+    return;
+  }
+
+  activeWidget?.destroy();
+  activeConfig = config;
+  activeUser = user;
+  activeWidget = mountWidget(config, user, open ?? getInitialOpenState());
+}
+
+// Remounts the widget with the current config, e.g. after the session changed.
+function restartWidget() {
+  if (activeConfig && activeWidget) {
+    startWidget(activeConfig, activeUser, activeWidget.isOpen());
+  }
+}
+
+const OpenChatWidget = {
+  init(options: WidgetOptions) {
+    const config = normalizeConfig(options);
+
+    if (!config) {
+      throw new Error("[os-chat-widget] OpenChatWidget.init requires apiUrl and apiKey.");
+    }
+
+    startWidget(
+      config,
+      options.user === undefined ? resolveInitialUser(options) : normalizeUser(options.user),
+      options.open
+    );
+  },
+  open() {
+    activeWidget?.setOpen(true);
+  },
+  close() {
+    activeWidget?.setOpen(false);
+  },
+  toggle() {
+    activeWidget?.setOpen(!activeWidget.isOpen());
+  },
+  async sendMessage(text: string) {
+    await activeWidget?.sendMessage(text);
+  },
+  setUser(user: WidgetUserOptions | null) {
+    const nextUser = normalizeUser(user);
+    const changed =
+      nextUser?.userId !== activeUser?.userId || nextUser?.token !== activeUser?.token;
+    activeUser = nextUser;
+
+    if (changed) {
+      restartWidget();
+    }
+  },
+  reset() {
+    forgetSession(activeUser);
+    restartWidget();
+  },
+  /** Erases the conversation on the server, then starts a new session. No confirmation prompt. */
+  async deleteConversation(): Promise<boolean> {
+    return (await activeWidget?.deleteConversation()) ?? false;
+  },
+  destroy() {
+    activeWidget?.destroy();
+    activeWidget = null;
+    activeConfig = null;
+  },
+  on<K extends WidgetEventName>(event: K, handler: WidgetEventHandler<K>): () => void {
+    const handlers = eventHandlers.get(event) ?? new Set();
+    handlers.add(handler as (payload: unknown) => void);
+    eventHandlers.set(event, handlers);
+
+    return () => {
+      handlers.delete(handler as (payload: unknown) => void);
+    };
+  }
+};
+
+declare global {
+  interface Window {
+    OpenChatWidget: typeof OpenChatWidget;
+  }
+}
+
+window.OpenChatWidget = OpenChatWidget;
+
+function bootstrapWidget() {
+  if (activeWidget || document.getElementById(ROOT_ID)) {
+    return;
+  }
+
+  // Without data-api-url and data-api-key the host page calls `OpenChatWidget.init` itself.
+  const script = resolveScriptElement();
+  const config = readConfig(script);
+
+  if (config && script) {
+    startWidget(config, resolveInitialUser({ ...script.dataset }));
+  }
 }
 
 if (document.readyState === "loading") {
@@ -0,0 +1,138 @@
+// Renders chat messages into DOM nodes from the shared markdown tree, so nothing is ever assigned as
+// HTML.
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "shared/markdown";
+
+function appendInline(parent: Node, nodes: MarkdownInline[]) {
+  for (const node of nodes) {
+    if (node.type === "text") {
+      parent.appendChild(document.createTextNode(node.text));
+    } else if (node.type === "break") {
+      parent.appendChild(document.createElement("br"));
+    } else if (node.type === "code") {
+      const code = document.createElement("code");
+      code.textContent = node.text;
+      parent.appendChild(code);
+    } else if (node.type === "link") {
+      const link = document.createElement("a");
+      link.href = node.href;
+      link.target = "_blank";
+      link.rel = "noopener noreferrer";
+      appendInline(link, node.children);
+      parent.appendChild(link);
+    } else {
+      const element = document.createElement(node.type);
+      appendInline(element, node.children);
+      parent.appendChild(element);
+    }
+  }
+}
+
+function createBlockElement(block: MarkdownBlock): HTMLElement {
+  if (block.type === "paragraph") {
+    const paragraph = document.createElement("p");
+    appendInline(paragraph, block.children);
+    return paragraph;
+  }
+
+  if (block.type === "heading") {
+    const heading = document.createElement(`h${block.level}`);
+    appendInline(heading, block.children);
+    return heading;
+  }
+
+  if (block.type === "code") {
+    const pre = document.createElement("pre");
+    const code = document.createElement("code");
+    code.textContent = block.text;
+
+    if (block.language) {
+      code.dataset.language = block.language;
+    }
+
+    pre.appendChild(code);
+    return pre;
+  }
+
+  if (block.type === "blockquote") {
+    const quote = document.createElement("blockquote");
+    quote.append(...block.children.map(createBlockElement));
+    return quote;
+  }
+
+  if (block.type === "list") {
+    const list = document.createElement(block.ordered ? "ol" : "ul");
+
+    if (block.start !== undefined && block.start !== 1) {
+      list.setAttribute("start", String(block.start));
+    }
+
+    for (const itemBlocks of block.items) {
+      const item = document.createElement("li");
+      const [first] = itemBlocks;
+
+      // Tight items render their text inline instead of wrapped in a paragraph.
+      if (itemBlocks.length === 1 && first.type === "paragraph") {
+        appendInline(item, first.children);
+      } else {
+        item.append(...itemBlocks.map(createBlockElement));
+      }
+
+      list.appendChild(item);
+    }
+
+    return list;
+  }
+
+  if (block.type === "table") {
+    const table = document.createElement("table");
+    const head = table.createTHead().insertRow();
+
+    for (const cell of block.header) {
+      const th = document.createElement("th");
+      appendInline(th, cell);
+      head.appendChild(th);
+    }
+
+    const body = table.createTBody();
+
+    for (const row of block.rows) {
+      const tr = body.insertRow();
+
+      for (const cell of row) {
+        appendInline(tr.insertCell(), cell);
+      }
+    }
+
+    return table;
+  }
+
+  return document.createElement("hr");
+}
+
+export function renderMarkdown(source: string): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  fragment.append(...parseMarkdown(source).map(createBlockElement));
+  return fragment;
+}
+
+/**
+ * Renders `source` into `target`, keeping the existing nodes of blocks that did not change. While a
+ * reply streams in only the block that is still growing is replaced, so the rest does not flicker.
+ */
+export function setMarkdownContent(target: HTMLElement, source: string) {
+  const nextNodes = Array.from(renderMarkdown(source).childNodes);
+
+  nextNodes.forEach((node, index) => {
+    const current = target.childNodes[index];
+
+    if (!current) {
+      target.appendChild(node);
+    } else if (!current.isEqualNode(node)) {
+      target.replaceChild(node, current);
+    }
+  });
+
+  while (target.childNodes.length > nextNodes.length) {
+    target.lastChild?.remove();
+  }
+}